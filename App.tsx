@@ -1,11 +1,39 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { ViewMode, AlignedRow, LegalAnalysis, UserComment } from './types';
-import { computeAlignedDiff } from './utils/diff';
-import { analyzeDocuments, extractTextFromBlob, getSmartExplanations } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ViewMode, AlignedRow, LegalAnalysis, KeyChange, UserComment, Matter, MatterSnapshot, ComparisonSettings, ImportedComment, ThreeWayRegion, DocumentVersion, LLMProviderId, LLMSettings, RowFlag, ChangeDecision } from './types';
+import { ComparisonResult, DiffCancelledError, runComparisonInWorker } from './utils/diffWorkerClient';
+import { createAnchor, placeImportedComments, reanchorComments } from './utils/comments';
+import { DEFAULT_COMPARISON_SETTINGS } from './utils/normalize';
+import { DEFAULT_PLAYBOOK_SOURCE, evaluatePlaybook, parsePlaybook, PlaybookViolation } from './utils/playbook';
+import { extractKeyTerms, KEY_TERM_LABELS, KeyTerm } from './utils/keyTerms';
+import { DefinedTerm, trackDefinedTerms } from './utils/definedTerms';
+import { CrossReferenceIssue, checkCrossReferences } from './utils/crossReferences';
+import { sourcePagesOfRows } from './utils/pageBreaks';
+import { mergeDocument, reviewChanges, reviewProgress } from './utils/review';
+import { rowRisk } from './utils/navigator';
+import {
+  analyzeComparison, AnalysisProgress, ExplanationKind, ExplanationProgress, ExplanationResult, explainChanges, ChangeToExplain,
+  extractTextFromBlob, getCounterpartyExplanations, getSmartExplanations,
+} from './services/aiService';
+import { DEFAULT_LLM_SETTINGS, PROVIDER_LABELS } from './services/llmProvider';
+import { exportTrackedChangesDocx } from './services/docxExport';
+import { buildReviewReport } from './services/reportExport';
+import { DocxImport, DocxState, importDocx } from './services/docxImport';
+import { ExtractionProgress, ExtractionReport, LOW_CONFIDENCE, documentText, extractImageText, extractPdfText, pageImage } from './services/localExtraction';
+import { createEmptyMatter, deleteMatter, duplicateMatter, listMatters, saveMatter } from './services/matterStore';
 import { ComparisonPanel } from './components/ComparisonPanel';
 import { AnalysisView } from './components/AnalysisView';
-import mammoth from 'mammoth';
+import { PlaybookView } from './components/PlaybookView';
+import { CrossReferencesView } from './components/CrossReferencesView';
+import { KeyTermsView } from './components/KeyTermsView';
+import { MatterSidebar } from './components/MatterSidebar';
+import { ComparisonSettingsPanel } from './components/ComparisonSettingsPanel';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { ThreeWayView } from './components/ThreeWayView';
+import { VersionTimeline } from './components/VersionTimeline';
+import { ExtractionReportPanel } from './components/ExtractionReportPanel';
+import { CaptureSession } from './components/CaptureSession';
+import { ReviewBar } from './components/ReviewControls';
 
 const SAMPLE_DOC_1 = `SOFTWARE SERVICES AGREEMENT
 
@@ -23,130 +51,693 @@ const SAMPLE_DOC_2 = `SOFTWARE SERVICES AGREEMENT
 4. LIABILITY. Provider's total liability is uncapped for any breaches.
 5. GOVERNING LAW. This agreement is governed by the laws of Delaware.`;
 
+const DEFAULT_DOC_NAMES: [string, string] = ['Document A (pasted text)', 'Document B (pasted text)'];
+// Each snapshot holds both documents in full and is saved with the matter, so only the latest are kept.
+const MAX_HISTORY = 10;
+
+// '0' is the common ancestor in three-way mode.
+type DocTarget = '0' | '1' | '2';
+
 const App: React.FC = () => {
   const [doc1, setDoc1] = useState("");
   const [doc2, setDoc2] = useState("");
+  const [base, setBase] = useState<string | null>(null); // null: two-way comparison
+  const [threeWay, setThreeWay] = useState<ThreeWayRegion[] | null>(null);
+  const [threeWayExplanations, setThreeWayExplanations] = useState<Record<number, string>>({});
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [analysingRound, setAnalysingRound] = useState<number | null>(null);
   const [alignedRows, setAlignedRows] = useState<AlignedRow[]>([]);
   const [smartExplanations, setSmartExplanations] = useState<Record<number, string>>({});
+  const [decisions, setDecisions] = useState<Record<number, ChangeDecision>>({});
   const [comments, setComments] = useState<UserComment[]>([]);
   const [caseNotes, setCaseNotes] = useState("");
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem('lexidiff.reviewer') || 'Reviewer');
   const [viewMode, setViewMode] = useState<ViewMode>('split');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [isExtracting, setIsExtracting] = useState<'1' | '2' | null>(null);
-  const [showCamera, setShowCamera] = useState<'1' | '2' | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [citation, setCitation] = useState<{ label: string; rows: number[] } | null>(null);
+  const [playbookSource, setPlaybookSource] = useState(() => localStorage.getItem('lexidiff.playbook') || DEFAULT_PLAYBOOK_SOURCE);
+  const [diffProgress, setDiffProgress] = useState<number | null>(null);
+  const [settings, setSettings] = useState<ComparisonSettings>(DEFAULT_COMPARISON_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [llm, setLlm] = useState<LLMSettings>(DEFAULT_LLM_SETTINGS);
+  // API keys by provider, kept in memory for the session rather than in any matter.
+  const [apiKeys, setApiKeys] = useState<Partial<Record<LLMProviderId, string>>>({});
+  const [showProvider, setShowProvider] = useState(false);
+  const [insightProgress, setInsightProgress] = useState<ExplanationProgress | null>(null);
+  const [failedInsights, setFailedInsights] = useState<ChangeToExplain[]>([]);
+  const [exportInsights, setExportInsights] = useState(true);
+  const [docNames, setDocNames] = useState<[string, string]>(DEFAULT_DOC_NAMES);
+  // Word comments from imported documents, placed on diff rows at the next comparison.
+  const [pendingImports, setPendingImports] = useState<{ target: '1' | '2'; fileName: string; comments: ImportedComment[] }[]>([]);
+  const [docxChoice, setDocxChoice] = useState<{ target: DocTarget; fileName: string; result: DocxImport } | null>(null);
+  const [isExtracting, setIsExtracting] = useState<DocTarget | null>(null);
+  const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
+  // How each document imported from a PDF or image was read, page by page.
+  const [extractionReports, setExtractionReports] = useState<Partial<Record<DocTarget, ExtractionReport>>>({});
+  const [openReport, setOpenReport] = useState<DocTarget | null>(null);
+  const [readingPages, setReadingPages] = useState<number[]>([]);
+  const [shownPage, setShownPage] = useState<{ target: DocTarget; page: number } | null>(null);
+  const [showCamera, setShowCamera] = useState<DocTarget | null>(null);
   const [analysis, setAnalysis] = useState<LegalAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<MatterSnapshot[]>([]);
+  const [matters, setMatters] = useState<Matter[]>([]);
+  const [activeMatterId, setActiveMatterId] = useState<string | null>(null);
+  const [showMatters, setShowMatters] = useState(false);
+
+  // Content of the active matter as last loaded or saved, so the autosave only writes real edits.
+  const lastSaved = useRef("");
+  const matterLoadStarted = useRef(false);
+  const explanationRun = useRef(0);
+
+  const activeMatter = matters.find(m => m.id === activeMatterId) ?? null;
+  const aiSettings: LLMSettings = { ...llm, apiKey: apiKeys[llm.provider] };
+
+  const contentKey = (m: Matter) =>
+    JSON.stringify([m.doc1, m.doc2, m.alignedRows, m.smartExplanations, m.analysis, m.comments, m.caseNotes, m.history, m.settings, m.docNames, m.base, m.threeWay, m.threeWayExplanations, m.versions, m.llm, m.decisions]);
+
+  const loadMatter = (matter: Matter) => {
+    lastSaved.current = contentKey(matter);
+    setActiveMatterId(matter.id);
+    setDoc1(matter.doc1); setDoc2(matter.doc2);
+    setAlignedRows(matter.alignedRows); setSmartExplanations(matter.smartExplanations);
+    setAnalysis(matter.analysis); setComments(matter.comments);
+    setCaseNotes(matter.caseNotes); setHistory(matter.history.slice(-MAX_HISTORY));
+    setSettings(matter.settings ?? DEFAULT_COMPARISON_SETTINGS);
+    setDocNames(matter.docNames ?? DEFAULT_DOC_NAMES);
+    setBase(matter.base ?? null); setThreeWay(matter.threeWay ?? null);
+    setThreeWayExplanations(matter.threeWayExplanations ?? {});
+    setVersions(matter.versions ?? []);
+    const { apiKey, ...matterLlm } = matter.llm ?? DEFAULT_LLM_SETTINGS;
+    // Matters saved with a key before keys left them: keep it for the session; the next save drops it.
+    if (apiKey) setApiKeys(prev => ({ ...prev, [matterLlm.provider]: apiKey }));
+    setLlm(matterLlm);
+    setDecisions(matter.decisions ?? {});
+    explanationRun.current++; setInsightProgress(null); setFailedInsights([]);
+    setCitation(null);
+    setExtractionReports({});
+    setError(null);
+  };
+
+  const snapshotActiveMatter = (): Matter | null => activeMatter && {
+    ...activeMatter,
+    updatedAt: Date.now(),
+    doc1, doc2, alignedRows, smartExplanations, analysis, comments, caseNotes, history, settings, docNames,
+    base: base ?? undefined, threeWay: threeWay ?? undefined, threeWayExplanations, versions, llm, decisions,
+  };
+
+  const persistMatter = async (matter: Matter) => {
+    if (matter.id === activeMatterId) lastSaved.current = contentKey(matter);
+    setMatters(prev => [matter, ...prev.filter(m => m.id !== matter.id)]);
+    try {
+      await saveMatter(matter);
+    } catch (e) {
+      setError("Unable to save this matter to local storage.");
+    }
+  };
+
+  useEffect(() => {
+    if (matterLoadStarted.current) return;
+    matterLoadStarted.current = true;
+    listMatters()
+      .then(async stored => {
+        if (stored.length > 0) {
+          setMatters(stored);
+          loadMatter(stored[0]);
+        } else {
+          const matter = createEmptyMatter("Untitled Matter");
+          await persistMatter(matter);
+          loadMatter(matter);
+        }
+      })
+      .catch(() => setError("Local matter storage is unavailable. Work will not be saved."));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const matter = snapshotActiveMatter();
+      if (matter && contentKey(matter) !== lastSaved.current) persistMatter(matter);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [doc1, doc2, alignedRows, smartExplanations, analysis, comments, caseNotes, history, settings, docNames, base, threeWay, threeWayExplanations, versions, llm, decisions]);
+
+  const handleCreateMatter = async () => {
+    const current = snapshotActiveMatter();
+    if (current) await persistMatter(current);
+    const matter = createEmptyMatter(`Matter ${matters.length + 1}`);
+    await persistMatter(matter);
+    loadMatter(matter);
+    setShowMatters(false);
+  };
+
+  const handleOpenMatter = async (id: string) => {
+    const target = matters.find(m => m.id === id);
+    if (!target || id === activeMatterId) { setShowMatters(false); return; }
+    const current = snapshotActiveMatter();
+    if (current) await persistMatter(current);
+    loadMatter(target);
+    setShowMatters(false);
+  };
+
+  const handleRenameMatter = async (id: string, name: string) => {
+    const target = id === activeMatterId ? snapshotActiveMatter() : matters.find(m => m.id === id);
+    if (target) await persistMatter({ ...target, name, updatedAt: Date.now() });
+  };
 
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const handleDuplicateMatter = async (id: string) => {
+    try {
+      const current = snapshotActiveMatter();
+      if (current) await saveMatter(current);
+      const copy = await duplicateMatter(id);
+      setMatters(prev => [copy, ...prev]);
+    } catch (e) {
+      setError("Unable to duplicate this matter.");
+    }
+  };
+
+  const handleDeleteMatter = async (id: string) => {
+    const target = matters.find(m => m.id === id);
+    if (!target || !window.confirm(`Delete "${target.name}" and all of its documents, comments and notes?`)) return;
+    try {
+      await deleteMatter(id);
+    } catch (e) {
+      setError("Unable to delete this matter.");
+      return;
+    }
+    const remaining = matters.filter(m => m.id !== id);
+    setMatters(remaining);
+    if (id === activeMatterId) {
+      if (remaining.length > 0) {
+        loadMatter(remaining[0]);
+      } else {
+        const matter = createEmptyMatter("Untitled Matter");
+        await persistMatter(matter);
+        loadMatter(matter);
+      }
+    }
+  };
 
   const hasContent = doc1.trim().length > 0 || doc2.trim().length > 0 || analysis !== null;
 
   const handleReset = () => {
     if (window.confirm("Are you sure you want to clear your documents and current progress?")) {
-      setDoc1(""); setDoc2(""); setAlignedRows([]); setSmartExplanations([]); setComments([]); setCaseNotes(""); setAnalysis(null); setError(null);
+      setDoc1(""); setDoc2(""); setAlignedRows([]); setSmartExplanations({}); setComments([]); setCaseNotes(""); setAnalysis(null); setHistory([]); setDocNames(DEFAULT_DOC_NAMES); setError(null);
+      setBase(null); setThreeWay(null); setThreeWayExplanations({}); setVersions([]); setDecisions({});
+      explanationRun.current++; setInsightProgress(null); setFailedInsights([]); setCitation(null);
     }
   };
 
-  const handleCompare = async () => {
+  /** Compares the documents and returns the aligned rows (null if it failed); insights follow in the background. */
+  const handleCompare = async (): Promise<AlignedRow[] | null> => {
     if (!doc1.trim() || !doc2.trim()) {
       setError("Please provide text for both document versions before comparing.");
-      return;
+      return null;
+    }
+    if (base !== null && !base.trim()) {
+      setError("Please provide the base version (your last sent draft) for the three-way comparison.");
+      return null;
     }
     setError(null);
-    const newAligned = computeAlignedDiff(doc1, doc2);
+    setDiffProgress(0);
+    let result: ComparisonResult;
+    try {
+      result = await runComparisonInWorker(doc1, doc2, settings, setDiffProgress, base ?? undefined);
+    } catch (e) {
+      if (!(e instanceof DiffCancelledError)) {
+        setError("The comparison engine failed on these documents.");
+        setDiffProgress(null);
+      }
+      return null;
+    }
+    const newAligned = result.rows;
+    setDiffProgress(null);
     setAlignedRows(newAligned);
-    
+    setCitation(null);
+    setThreeWay(result.threeWay ?? null);
+    setThreeWayExplanations({});
+    setHistory(prev => {
+      const last = prev[prev.length - 1];
+      // Comparing the same texts again only moves the date of the last snapshot.
+      const kept = last && last.doc1 === doc1 && last.doc2 === doc2 ? prev.slice(0, -1) : prev;
+      return [...kept, { doc1, doc2, comparedAt: Date.now() }].slice(-MAX_HISTORY);
+    });
+    setComments(prev => [
+      ...reanchorComments(prev, newAligned),
+      ...pendingImports.flatMap(p => placeImportedComments(p.comments, newAligned, p.target === '1' ? 'left' : 'right', p.fileName)),
+    ]);
+    setPendingImports([]);
+    // Decisions are keyed by row, so they belong to the previous comparison.
+    setDecisions({});
+    if (result.threeWay) setViewMode('threeway');
+    else if (viewMode === 'analysis' || viewMode === 'threeway') setViewMode('split');
+
+    // In a negotiation round the insights are about what the counterparty did.
+    setSmartExplanations({});
+    runExplanations(result.threeWay ? 'counterparty' : 'comparison', onProgress => result.threeWay
+      ? getCounterpartyExplanations(result.threeWay, aiSettings, onProgress)
+      : getSmartExplanations(newAligned, aiSettings, onProgress), true);
+    return newAligned;
+  };
+
+  const runExplanations = async (
+    kind: ExplanationKind,
+    explain: (onProgress: (progress: ExplanationProgress) => void) => Promise<ExplanationResult>,
+    fresh: boolean
+  ) => {
+    // A newer comparison (or another matter) supersedes insights still being fetched.
+    const run = ++explanationRun.current;
+    const isCurrent = () => run === explanationRun.current;
+    setFailedInsights([]);
+    const { explanations, failed } = await explain(progress => { if (isCurrent()) setInsightProgress(progress); });
+    if (!isCurrent()) return;
+    const setExplanations = kind === 'counterparty' ? setThreeWayExplanations : setSmartExplanations;
+    setExplanations(prev => (fresh ? explanations : { ...prev, ...explanations }));
+    setFailedInsights(failed);
+    setInsightProgress(null);
+  };
+
+  const handleRetryInsights = () => {
+    if (failedInsights.length === 0) return;
+    runExplanations(failedInsights[0].kind, onProgress => explainChanges(failedInsights, aiSettings, onProgress), false);
+  };
+
+  const toggleThreeWay = () => {
+    if (base === null) {
+      setBase("");
+      return;
+    }
+    setBase(null); setThreeWay(null); setThreeWayExplanations({});
+    if (viewMode === 'threeway') setViewMode('split');
+  };
+
+  const handleAddVersion = (source: '1' | '2', label: string, party: string) => {
+    const text = source === '1' ? doc1 : doc2;
+    if (!text.trim()) {
+      setError(`Document ${source === '1' ? 'A' : 'B'} is empty.`);
+      return;
+    }
+    setVersions(prev => [...prev, { id: crypto.randomUUID(), label, party, text, addedAt: Date.now() }]);
+  };
+
+  const handleMoveVersion = (id: string, delta: -1 | 1) => {
+    setVersions(prev => {
+      const from = prev.findIndex(v => v.id === id);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      // A round's analysis describes the change from its predecessor, so it is stale wherever that changed.
+      const first = Math.min(from, to);
+      return next.map((v, i) => (i >= first && i <= first + 2 ? { ...v, analysis: undefined } : v));
+    });
+  };
+
+  const handleDeleteVersion = (id: string) => {
+    const target = versions.find(v => v.id === id);
+    if (!target || !window.confirm(`Remove "${target.label}" from the timeline?`)) return;
+    setVersions(prev => {
+      const index = prev.findIndex(v => v.id === id);
+      return prev.filter(v => v.id !== id).map((v, i) => (i === index ? { ...v, analysis: undefined } : v));
+    });
+  };
+
+  const handleLoadVersion = (id: string, slot: '1' | '2') => {
+    const version = versions.find(v => v.id === id);
+    if (version) setDocument(slot, version.text, version.party ? `${version.label} (${version.party})` : version.label);
+  };
+
+  const handleAnalyseRounds = async () => {
+    setError(null);
+    const rounds = versions;
+    for (let i = 1; i < rounds.length; i++) {
+      if (rounds[i].analysis) continue;
+      setAnalysingRound(i);
+      try {
+        // In the background, so it neither cancels nor is cancelled by the comparison on screen.
+        const { rows } = await runComparisonInWorker(rounds[i - 1].text, rounds[i].text, settings, undefined, undefined, { cancelPrevious: false });
+        const res = await analyzeComparison(rows, aiSettings);
+        setVersions(prev => prev.map(v => v.id === rounds[i].id ? { ...v, analysis: res } : v));
+      } catch (e) {
+        setError(`AI Engine could not analyse ${rounds[i].label}. Please try again.`);
+        break;
+      }
+    }
+    setAnalysingRound(null);
+  };
+
+  const setDocument = (target: DocTarget, text: string, name: string) => {
+    if (target === '0') { setBase(text); return; }
+    if (target === '1') setDoc1(text); else setDoc2(text);
+    setDocNames(prev => target === '1' ? [name, prev[1]] : [prev[0], name]);
+  };
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem('lexidiff.reviewer', name);
+  };
+
+  const handleAddComment = (diffIndex: number, text: string, parentId?: string) => {
+    const comment: UserComment = {
+      id: crypto.randomUUID(),
+      diffIndex,
+      text,
+      author: reviewer.trim() || 'Reviewer',
+      timestamp: Date.now(),
+      ...(parentId ? { parentId } : { anchor: createAnchor(alignedRows, diffIndex), resolved: false }),
+    };
+    setComments(prev => [...prev, comment]);
+  };
+
+  const handleResolveThread = (id: string, resolved: boolean) => {
+    setComments(prev => prev.map(c => c.id === id ? { ...c, resolved } : c));
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleExportDocx = async () => {
+    try {
+      const blob = await exportTrackedChangesDocx(alignedRows, {
+        author: reviewer.trim() || 'Reviewer',
+        comments,
+        smartExplanations: exportInsights ? smartExplanations : undefined,
+      });
+      const base = (activeMatter?.name || 'LexiDiff comparison').replace(/[\\/:*?"<>|]+/g, '-');
+      downloadBlob(blob, `${base} - redline.docx`);
+    } catch (e) {
+      setError("The Word export could not be generated.");
+    }
+  };
+
+  const changes = useMemo(() => reviewChanges(alignedRows), [alignedRows]);
+  const decisionProgress = useMemo(() => reviewProgress(changes, decisions), [changes, decisions]);
+
+  const handleDecide = (changeId: number, decision: ChangeDecision | null) => setDecisions(prev => {
+    const next = { ...prev };
+    if (decision) next[changeId] = decision;
+    else delete next[changeId];
+    return next;
+  });
+
+  const decideUndecided = (state: 'accepted' | 'rejected', formattingOnly = false) => setDecisions(prev => ({
+    ...prev,
+    ...Object.fromEntries(changes.filter(c => !prev[c.id] && (!formattingOnly || c.formattingOnly)).map(c => [c.id, { state }])),
+  }));
+
+  const handleExportMerged = async () => {
+    try {
+      const merged = mergeDocument(alignedRows, changes, decisions);
+      const blob = await exportTrackedChangesDocx([{ left: { type: 'unchanged', value: merged }, right: { type: 'unchanged', value: merged } }], {
+        author: reviewer.trim() || 'Reviewer',
+        comments: [],
+        trackRevisions: false,
+      });
+      const base = (activeMatter?.name || 'LexiDiff comparison').replace(/[\\/:*?"<>|]+/g, '-');
+      downloadBlob(blob, `${base} - merged.docx`);
+    } catch (e) {
+      setError("The merged document could not be generated.");
+    }
+  };
+
+  // The merged draft becomes our side of the next round; the counterparty's reply goes into Document B.
+  const handleUseMergedAsDocumentA = () => {
+    setDocument('1', mergeDocument(alignedRows, changes, decisions), 'Merged draft');
+    setExtractionReports(prev => ({ ...prev, '1': undefined }));
+  };
+
+  // The fingerprints are of the texts the redline was computed from, which may since have been edited;
+  // an analysis of other texts is left out rather than filed against them.
+  const buildReport = () => {
+    const reported = history[history.length - 1] ?? { doc1, doc2 };
+    return buildReviewReport({
+      matterName: activeMatter?.name || 'LexiDiff comparison',
+      reviewer: reviewer.trim() || 'Reviewer',
+      documents: [{ name: docNames[0], text: reported.doc1 }, { name: docNames[1], text: reported.doc2 }],
+      rows: alignedRows,
+      smartExplanations,
+      analysis: analysisCurrent ? analysis : null,
+      caseNotes,
+    });
+  };
+
+  const handleExportReport = async () => {
+    try {
+      const html = await buildReport();
+      const base = (activeMatter?.name || 'LexiDiff comparison').replace(/[\\/:*?"<>|]+/g, '-');
+      downloadBlob(new Blob([html], { type: 'text/html' }), `${base} - review report.html`);
+    } catch (e) {
+      setError("The review report could not be generated.");
+    }
+  };
+
+  const handlePrintReport = async () => {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      setError("Allow pop-ups to print the review report.");
+      return;
+    }
     try {
-      const explanations = await getSmartExplanations(newAligned);
-      setSmartExplanations(explanations);
+      reportWindow.document.write(await buildReport());
+      reportWindow.document.close();
+      reportWindow.focus();
+      reportWindow.print();
     } catch (e) {
-      console.warn("Legal AI Insights were skipped.");
+      reportWindow.close();
+      setError("The review report could not be generated.");
     }
-    if (viewMode === 'analysis') setViewMode('split');
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, target: '1' | '2') => {
+  const applyDocxImport = (target: DocTarget, fileName: string, result: DocxImport, state: DocxState) => {
+    const variant = result[state];
+    setDocument(target, variant.text, fileName);
+    setDocxChoice(null);
+    // The base is not part of the two-way rows, so its comments have nowhere to go.
+    if (target === '0') return;
+    setPendingImports(prev => [
+      ...prev.filter(p => p.target !== target),
+      ...(variant.comments.length ? [{ target, fileName, comments: variant.comments }] : []),
+    ]);
+  };
+
+  // Documents read page by page on this device; the report opens when a page needs attention.
+  const applyExtraction = (target: DocTarget, report: ExtractionReport) => {
+    setDocument(target, documentText(report), report.fileName);
+    setExtractionReports(prev => ({ ...prev, [target]: report }));
+    if (report.pages.some(p => p.confidence !== null && p.confidence < LOW_CONFIDENCE)) setOpenReport(target);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, target: DocTarget) => {
     const file = e.target.files?.[0];
     if (!file) return;
     setIsExtracting(target);
     setError(null);
+    setExtractionReports(prev => ({ ...prev, [target]: undefined }));
     try {
-      let text = "";
       if (file.name.toLowerCase().endsWith('.docx')) {
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        text = result.value;
-      } else if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
+        const result = await importDocx(await file.arrayBuffer());
+        if (result.hasRevisions) setDocxChoice({ target, fileName: file.name, result });
+        else applyDocxImport(target, file.name, result, 'accepted');
+      } else if (file.type === 'application/pdf') {
+        const data = await file.arrayBuffer();
+        const pages = await extractPdfText(data, setExtractionProgress);
+        applyExtraction(target, { fileName: file.name, pages, source: { kind: 'pdf', data } });
+      } else if (file.type.startsWith('image/')) {
         const reader = new FileReader();
         const base64 = await new Promise<string>((resolve) => {
           reader.onload = () => resolve((reader.result as string).split(',')[1]);
           reader.readAsDataURL(file);
         });
-        text = await extractTextFromBlob(base64, file.type);
+        const pages = await extractImageText([file], setExtractionProgress);
+        applyExtraction(target, { fileName: file.name, pages, source: { kind: 'image', data: base64, mimeType: file.type } });
       } else {
-        text = await file.text();
+        setDocument(target, await file.text(), file.name);
       }
-      if (target === '1') setDoc1(text); else setDoc2(text);
     } catch (err) {
       setError("File processing error. Please try a different format.");
     } finally {
       setIsExtracting(null);
+      setExtractionProgress(null);
     }
   };
 
-  const startCamera = async (target: '1' | '2') => {
+  // Opt-in only: sends the images of the given pages to the matter's AI provider.
+  const handleReadPagesWithAI = async (target: DocTarget, pageNumbers: number[]) => {
+    const report = extractionReports[target];
+    if (!report) return;
+    setReadingPages(pageNumbers);
+    setError(null);
+    let pages = report.pages;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
-      setShowCamera(target);
-      setTimeout(() => { if (videoRef.current) videoRef.current.srcObject = stream; }, 100);
-    } catch (err) {
-      setError("Unable to access camera.");
+      for (const number of pageNumbers) {
+        const image = await pageImage(report.source, number);
+        const text = await extractTextFromBlob(image.data, image.mimeType, aiSettings);
+        pages = pages.map(p => p.page === number ? { ...p, text, method: 'ai' as const, confidence: null } : p);
+      }
+    } catch (e) {
+      setError("The AI provider could not read these pages.");
+    } finally {
+      setReadingPages([]);
     }
+    if (pages === report.pages) return;
+    setDocument(target, documentText({ ...report, pages }), report.fileName);
+    setExtractionReports(prev => ({ ...prev, [target]: { ...report, pages } }));
   };
 
-  const capturePhoto = async () => {
-    if (!videoRef.current || !showCamera) return;
-    const canvas = document.createElement('canvas');
-    canvas.width = videoRef.current.videoWidth;
-    canvas.height = videoRef.current.videoHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.drawImage(videoRef.current, 0, 0);
-    const target = showCamera;
-    const stream = videoRef.current.srcObject as MediaStream;
-    stream.getTracks().forEach(t => t.stop());
+  const handleCaptureDone = async (target: DocTarget, images: HTMLCanvasElement[]) => {
     setShowCamera(null);
     setIsExtracting(target);
+    setError(null);
     try {
-      const base64 = canvas.toDataURL('image/jpeg').split(',')[1];
-      const text = await extractTextFromBlob(base64, 'image/jpeg');
-      if (target === '1') setDoc1(text); else setDoc2(text);
+      const pages = await extractImageText(images, setExtractionProgress);
+      const source = { kind: 'capture' as const, images: images.map(image => image.toDataURL('image/jpeg', 0.85).split(',')[1]) };
+      applyExtraction(target, { fileName: `Camera capture (${images.length} ${images.length === 1 ? 'page' : 'pages'})`, pages, source });
     } catch (e) { setError("OCR processing failed."); }
-    finally { setIsExtracting(null); }
+    finally { setIsExtracting(null); setExtractionProgress(null); }
   };
 
   const handleRunAnalysis = async () => {
     if (!doc1.trim() || !doc2.trim()) return;
     setIsAnalyzing(true);
-    setViewMode('analysis');
     setError(null);
+    // The findings cite rows of the comparison on screen, so compare first unless it is current.
+    const compared = history[history.length - 1];
+    const rows = compared && compared.doc1 === doc1 && compared.doc2 === doc2 && alignedRows.length
+      ? alignedRows
+      : await handleCompare();
+    if (!rows) {
+      setIsAnalyzing(false);
+      return;
+    }
+    setViewMode('analysis');
     try {
-      const res = await analyzeDocuments(doc1, doc2);
-      setAnalysis(res);
+      const res = await analyzeComparison(rows, aiSettings, setAnalysisProgress);
+      setAnalysis({ ...res, basedOn: { doc1, doc2 } });
+      // A comparison of two consecutive rounds also feeds the timeline's risk trend.
+      const round = versions.findIndex((v, i) => i > 0 && versions[i - 1].text === doc1 && v.text === doc2);
+      if (round > 0) setVersions(prev => prev.map((v, i) => i === round ? { ...v, analysis: res } : v));
     } catch (e) {
       setError("AI Engine is momentarily busy. Please try again.");
       setViewMode('split');
     } finally {
       setIsAnalyzing(false);
+      setAnalysisProgress(null);
+    }
+  };
+
+  const playbook = useMemo(() => {
+    try {
+      return parsePlaybook(playbookSource);
+    } catch {
+      return null;
+    }
+  }, [playbookSource]);
+
+  // Checked against the documents as last compared, so violations line up with the rows.
+  const compared = history[history.length - 1];
+  const playbookViolations = useMemo(
+    () => (playbook && compared && alignedRows.length ? evaluatePlaybook(playbook, compared.doc1, compared.doc2, alignedRows) : []),
+    [playbook, compared, alignedRows]
+  );
+  const definedTerms = useMemo(
+    () => (compared && alignedRows.length ? trackDefinedTerms(compared.doc1, compared.doc2, alignedRows) : []),
+    [compared, alignedRows]
+  );
+  const crossReferenceIssues = useMemo(
+    () => (compared && alignedRows.length ? checkCrossReferences(compared.doc1, compared.doc2, alignedRows) : []),
+    [compared, alignedRows]
+  );
+  // Rows of a document photographed page by page lead back to the photo they were read from.
+  const sourcePages = useMemo(() => {
+    if (!compared || !alignedRows.length) return {};
+    const pagesOf = (target: '1' | '2', text: string, side: 'left' | 'right') =>
+      extractionReports[target]?.source.kind === 'capture' ? sourcePagesOfRows(text, alignedRows, side) ?? undefined : undefined;
+    return { left: pagesOf('1', compared.doc1, 'left'), right: pagesOf('2', compared.doc2, 'right') };
+  }, [compared, alignedRows, extractionReports]);
+  const shownCapture = shownPage ? extractionReports[shownPage.target] : undefined;
+  const shownImage = shownPage && shownCapture?.source.kind === 'capture' ? shownCapture.source.images[shownPage.page - 1] : undefined;
+
+  const rowFlags = useMemo(() => {
+    const flags: Record<number, RowFlag[]> = {};
+    const flag = (row: number, kind: RowFlag['kind'], label: string) => {
+      if (!flags[row]?.some(f => f.label === label)) flags[row] = [...(flags[row] ?? []), { kind, label }];
+    };
+    for (const violation of playbookViolations) {
+      for (const row of violation.rows) flag(row, 'playbook', `Playbook · ${violation.title}`);
     }
+    for (const term of definedTerms) {
+      for (const row of term.affectedRows) flag(row, 'definition', `Indirectly affected · ${term.term}`);
+    }
+    for (const issue of crossReferenceIssues) {
+      flag(issue.row, 'reference', `${issue.kind === 'dangling' ? 'Dangling reference' : 'Reference points elsewhere'} · ${issue.reference}`);
+    }
+    return flags;
+  }, [playbookViolations, definedTerms, crossReferenceIssues]);
+
+  // Findings cite rows by index, which only hold for the comparison the analysis was run on.
+  const analysisCurrent = useMemo(
+    () => !!(analysis?.basedOn && compared && analysis.basedOn.doc1 === compared.doc1 && analysis.basedOn.doc2 === compared.doc2),
+    [analysis, compared]
+  );
+  const riskOfRows = useMemo(
+    () => rowRisk(alignedRows.length, analysisCurrent ? analysis!.keyChanges : [], playbookViolations),
+    [alignedRows, analysis, analysisCurrent, playbookViolations]
+  );
+
+  const keyTerms = useMemo(
+    () => (compared && alignedRows.length ? extractKeyTerms(compared.doc1, compared.doc2, alignedRows) : []),
+    [compared, alignedRows]
+  );
+
+  const handleShowKeyTerm = (term: KeyTerm, side: 'a' | 'b') => {
+    const value = term[side];
+    if (!value) return;
+    setCitation({ label: `Key term · ${KEY_TERM_LABELS[term.category]} · ${value.text}`, rows: [value.row] });
+    setViewMode('split');
+  };
+
+  const handleShowDefinedTerm = (term: DefinedTerm) => {
+    const rows = [...(term.definitionRow !== undefined ? [term.definitionRow] : []), ...term.affectedRows];
+    setCitation({ label: `Defined term · ${term.term}`, rows });
+    setViewMode('split');
+  };
+
+  const handleSavePlaybook = (source: string) => {
+    setPlaybookSource(source);
+    localStorage.setItem('lexidiff.playbook', source);
+  };
+
+  const handleShowViolation = (violation: PlaybookViolation) => {
+    setCitation({ label: `Playbook · ${violation.title}`, rows: violation.rows });
+    setViewMode('split');
+  };
+
+  const handleShowCrossReference = (issue: CrossReferenceIssue) => {
+    setCitation({ label: `Cross-reference · ${issue.reference}`, rows: [issue.row] });
+    setViewMode('split');
+  };
+
+  const handleShowCitation = (item: KeyChange) => {
+    setCitation({ label: item.clause, rows: (item.rows ?? []).filter(row => row < alignedRows.length) });
+    setViewMode('split');
   };
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col font-sans text-slate-900">
       {/* Premium Header */}
-      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-xl border-b border-slate-200">
+      <header className="print:hidden sticky top-0 z-50 bg-white/80 backdrop-blur-xl border-b border-slate-200">
         <div className="max-w-[1600px] mx-auto px-4 md:px-8 h-16 md:h-20 flex items-center justify-between">
           <div className="flex items-center gap-4">
+            <button onClick={() => setShowMatters(true)} className="p-2 -ml-2 text-slate-400 hover:text-indigo-600 rounded-lg hover:bg-slate-100 transition-colors" title="Matters">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
+            </button>
             <div className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center shadow-lg shadow-indigo-200">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -154,7 +745,7 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl font-black tracking-tight text-slate-900">LEX<span className="text-indigo-600">DIFF</span></h1>
-              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hidden md:block">AI-Powered Legal Comparative Analysis</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hidden md:block">{activeMatter ? activeMatter.name : 'AI-Powered Legal Comparative Analysis'}</p>
             </div>
           </div>
 
@@ -166,6 +757,26 @@ const App: React.FC = () => {
               >
                 Comparison
               </button>
+              <button 
+                onClick={() => setViewMode('unified')}
+                className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${viewMode === 'unified' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                Redline
+              </button>
+              {threeWay && (
+                <button
+                  onClick={() => setViewMode('threeway')}
+                  className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${viewMode === 'threeway' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Three-Way
+                </button>
+              )}
+              <button
+                onClick={() => setViewMode('terms')}
+                className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${viewMode === 'terms' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                Key Terms
+              </button>
               <button 
                 onClick={() => setViewMode('analysis')}
                 className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${viewMode === 'analysis' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
@@ -179,14 +790,14 @@ const App: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
               </button>
             )}
-            <button onClick={() => { setDoc1(SAMPLE_DOC_1); setDoc2(SAMPLE_DOC_2); }} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all hidden md:block">Samples</button>
+            <button onClick={() => { setDoc1(SAMPLE_DOC_1); setDoc2(SAMPLE_DOC_2); setDocNames(['Sample agreement (original)', 'Sample agreement (revised)']); }} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all hidden md:block">Samples</button>
           </div>
         </div>
       </header>
 
-      <main className="flex-1 flex flex-col max-w-[1600px] mx-auto w-full p-4 md:p-8 gap-6 md:gap-8 overflow-hidden">
+      <main className="flex-1 flex flex-col max-w-[1600px] mx-auto w-full p-4 md:p-8 gap-6 md:gap-8 overflow-hidden print:overflow-visible print:p-0">
         {error && (
-          <div className="bg-rose-50 border border-rose-200 text-rose-800 px-6 py-4 rounded-2xl flex items-center justify-between animate-in fade-in slide-in-from-top-2">
+          <div className="print:hidden bg-rose-50 border border-rose-200 text-rose-800 px-6 py-4 rounded-2xl flex items-center justify-between animate-in fade-in slide-in-from-top-2">
             <span className="text-sm font-bold">{error}</span>
             <button onClick={() => setError(null)} className="text-rose-400 hover:text-rose-600">
                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
@@ -194,23 +805,95 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {/* Camera Overlay */}
-        {showCamera && (
-          <div className="fixed inset-0 z-[100] bg-slate-900/95 flex flex-col items-center justify-center p-6">
-            <video ref={videoRef} autoPlay playsInline className="w-full max-w-2xl rounded-3xl overflow-hidden shadow-2xl border border-white/10" />
-            <div className="mt-8 flex gap-4">
-              <button onClick={() => setShowCamera(null)} className="px-8 py-3 rounded-xl bg-white/10 text-white font-bold">Cancel</button>
-              <button onClick={capturePhoto} className="px-8 py-3 rounded-xl bg-indigo-600 text-white font-bold shadow-xl shadow-indigo-500/20">Capture</button>
+        {showMatters && (
+          <MatterSidebar
+            matters={matters}
+            activeId={activeMatterId}
+            caseNotes={caseNotes}
+            onCaseNotesChange={setCaseNotes}
+            onOpen={handleOpenMatter}
+            onCreate={handleCreateMatter}
+            onRename={handleRenameMatter}
+            onDuplicate={handleDuplicateMatter}
+            onDelete={handleDeleteMatter}
+            onClose={() => setShowMatters(false)}
+          />
+        )}
+
+        {docxChoice && (
+          <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6">
+            <div className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 space-y-6">
+              <div>
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">{docxChoice.fileName}</span>
+                <h3 className="text-lg font-bold text-slate-900">This document contains tracked changes</h3>
+                <p className="text-sm text-slate-500 mt-2">Choose which state of the document to compare.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  { state: 'original', label: 'Original', sub: 'All tracked changes rejected' },
+                  { state: 'accepted', label: 'Accepted', sub: 'All tracked changes applied' },
+                ] as const).map(option => (
+                  <button
+                    key={option.state}
+                    onClick={() => applyDocxImport(docxChoice.target, docxChoice.fileName, docxChoice.result, option.state)}
+                    className="p-5 rounded-2xl border border-slate-200 text-left hover:border-indigo-300 hover:bg-indigo-50/50 transition-all"
+                  >
+                    <span className="block text-sm font-bold text-slate-800">{option.label}</span>
+                    <span className="block text-xs text-slate-400 mt-1">{option.sub}</span>
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => setDocxChoice(null)} className="w-full py-3 rounded-xl bg-slate-100 text-slate-500 text-xs font-bold">Cancel</button>
             </div>
           </div>
         )}
 
-        {viewMode === 'split' ? (
-          <div className="flex-1 flex flex-col gap-6 overflow-hidden">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 md:h-[350px]">
+        {openReport && extractionReports[openReport] && (
+          <ExtractionReportPanel
+            report={extractionReports[openReport]!}
+            providerLabel={PROVIDER_LABELS[llm.provider]}
+            readingPages={readingPages}
+            onReadWithAI={(pages) => handleReadPagesWithAI(openReport, pages)}
+            onClose={() => setOpenReport(null)}
+          />
+        )}
+
+        {showCamera && (
+          <CaptureSession
+            onDone={(images) => handleCaptureDone(showCamera, images)}
+            onCancel={() => setShowCamera(null)}
+            onError={(message) => { setError(message); setShowCamera(null); }}
+          />
+        )}
+
+        {shownPage && shownImage && (
+          <div onClick={() => setShownPage(null)} className="fixed inset-0 z-[100] bg-slate-900/90 flex flex-col items-center justify-center gap-4 p-6 cursor-zoom-out">
+            <span className="text-[10px] font-black uppercase tracking-widest text-white/60">{shownCapture!.fileName} · page {shownPage.page}</span>
+            <img src={`data:image/jpeg;base64,${shownImage}`} alt={`Page ${shownPage.page}`} className="max-h-[85vh] max-w-full rounded-2xl shadow-2xl bg-white" />
+          </div>
+        )}
+
+        {viewMode !== 'analysis' ? (
+          <div className="flex-1 flex flex-col gap-6 overflow-hidden print:overflow-visible">
+            {showTimeline && (
+              <VersionTimeline
+                versions={versions}
+                settings={settings}
+                selected={[versions.find(v => v.text === doc1)?.id, versions.find(v => v.text === doc2)?.id]}
+                analysingRound={analysingRound}
+                onAdd={handleAddVersion}
+                onMove={handleMoveVersion}
+                onDelete={handleDeleteVersion}
+                onLoad={handleLoadVersion}
+                onAnalyseRounds={handleAnalyseRounds}
+                onClose={() => setShowTimeline(false)}
+              />
+            )}
+            <div className={`print:hidden grid grid-cols-1 gap-6 md:h-[350px] ${base !== null ? 'lg:grid-cols-3' : 'lg:grid-cols-2'}`}>
               {[
-                { id: '1', val: doc1, set: setDoc1, label: 'Document A', sub: 'Original / Signed' },
-                { id: '2', val: doc2, set: setDoc2, label: 'Document B', sub: 'Proposed / New' }
+                ...(base !== null ? [{ id: '0', val: base, set: setBase, label: 'Base', sub: 'Last Sent Draft' }] : []),
+                { id: '1', val: doc1, set: setDoc1, label: 'Document A', sub: base !== null ? 'Our Draft' : 'Original / Signed' },
+                { id: '2', val: doc2, set: setDoc2, label: 'Document B', sub: base !== null ? 'Counterparty Draft' : 'Proposed / New' }
               ].map(item => (
                 <div key={item.id} className="bg-white rounded-3xl border border-slate-200 shadow-sm flex flex-col overflow-hidden relative group">
                   <div className="px-6 py-4 bg-slate-50 border-b flex items-center justify-between">
@@ -219,11 +902,20 @@ const App: React.FC = () => {
                       <h3 className="text-sm font-bold text-slate-800">{item.label}</h3>
                     </div>
                     <div className="flex items-center gap-2">
+                       {extractionReports[item.id as DocTarget] && (
+                         <button
+                           onClick={() => setOpenReport(item.id as DocTarget)}
+                           className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-white transition-colors ${extractionReports[item.id as DocTarget]!.pages.some(p => p.confidence !== null && p.confidence < LOW_CONFIDENCE) ? 'text-rose-500' : 'text-slate-400 hover:text-indigo-600'}`}
+                           title="How each page was read"
+                         >
+                           {extractionReports[item.id as DocTarget]!.pages.length === 1 ? '1 page' : `${extractionReports[item.id as DocTarget]!.pages.length} pages`}
+                         </button>
+                       )}
                        <label className="cursor-pointer p-2 hover:bg-white rounded-xl transition-colors text-slate-400 hover:text-indigo-600">
-                          <input type="file" className="hidden" accept=".docx,.pdf,.txt,image/*" onChange={(e) => handleFileUpload(e, item.id as '1' | '2')} />
+                          <input type="file" className="hidden" accept=".docx,.pdf,.txt,image/*" onChange={(e) => handleFileUpload(e, item.id as DocTarget)} />
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" /></svg>
                        </label>
-                       <button onClick={() => startCamera(item.id as '1' | '2')} className="p-2 hover:bg-white rounded-xl text-slate-400 hover:text-indigo-600"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg></button>
+                       <button onClick={() => setShowCamera(item.id as DocTarget)} className="p-2 hover:bg-white rounded-xl text-slate-400 hover:text-indigo-600"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg></button>
                     </div>
                   </div>
                   <textarea 
@@ -233,21 +925,67 @@ const App: React.FC = () => {
                     className="flex-1 p-6 text-sm font-medium resize-none focus:outline-none text-slate-700 bg-transparent leading-relaxed"
                   />
                   {isExtracting === item.id && (
-                    <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex items-center justify-center">
+                    <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center gap-4">
                        <div className="w-10 h-10 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+                       {extractionProgress && (
+                         <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                           {extractionProgress.method === 'ocr' ? 'OCR' : 'Reading'} · page {extractionProgress.page} of {extractionProgress.total}
+                         </span>
+                       )}
                     </div>
                   )}
                 </div>
               ))}
             </div>
 
-            <div className="flex justify-center gap-4 py-4">
+            <div className="print:hidden flex justify-center gap-4 py-4 relative">
+              {showSettings && (
+                <ComparisonSettingsPanel settings={settings} onChange={setSettings} onClose={() => setShowSettings(false)} />
+              )}
+              {showProvider && (
+                <ProviderSettingsPanel
+                  settings={llm}
+                  onChange={setLlm}
+                  apiKey={apiKeys[llm.provider] ?? ''}
+                  onApiKeyChange={(key) => setApiKeys(prev => ({ ...prev, [llm.provider]: key }))}
+                  onClose={() => setShowProvider(false)}
+                />
+              )}
+              <button
+                onClick={() => { setShowSettings(!showSettings); setShowProvider(false); }}
+                className={`px-4 py-4 rounded-2xl border transition-all ${showSettings ? 'border-indigo-200 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400 bg-white hover:text-indigo-600'}`}
+                title="Comparison settings"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+              </button>
+              <button
+                onClick={() => { setShowProvider(!showProvider); setShowSettings(false); }}
+                className={`px-4 py-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${showProvider ? 'border-indigo-200 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400 bg-white hover:text-indigo-600'}`}
+                title="AI provider for this matter"
+              >
+                AI · {llm.provider === 'gemini' ? 'Gemini' : llm.provider === 'openai' ? 'Private' : 'Mock'}
+              </button>
+              <button
+                onClick={toggleThreeWay}
+                className={`px-4 py-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${base !== null ? 'border-indigo-200 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400 bg-white hover:text-indigo-600'}`}
+                title="Compare both drafts against the common base version"
+              >
+                Three-Way
+              </button>
+              <button
+                onClick={() => setShowTimeline(!showTimeline)}
+                className={`px-4 py-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${showTimeline ? 'border-indigo-200 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400 bg-white hover:text-indigo-600'}`}
+                title="Negotiation rounds of this matter"
+              >
+                Timeline{versions.length > 0 && ` · ${versions.length}`}
+              </button>
               <button 
                 onClick={handleCompare} 
                 disabled={!doc1 || !doc2}
-                className="px-12 py-4 rounded-2xl bg-slate-900 text-white font-black text-xs uppercase tracking-widest hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 disabled:opacity-40"
+                className="px-12 py-4 rounded-2xl bg-slate-900 text-white font-black text-xs uppercase tracking-widest hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 disabled:opacity-40 flex items-center gap-2"
               >
-                Compare & Sync
+                {diffProgress !== null && <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>}
+                {diffProgress !== null ? `Comparing ${Math.round(diffProgress * 100)}%` : 'Compare & Sync'}
               </button>
               <button 
                 onClick={handleRunAnalysis} 
@@ -260,30 +998,113 @@ const App: React.FC = () => {
             </div>
 
             {alignedRows.length > 0 && (
-              <div className="flex-1 bg-white rounded-[2.5rem] border border-slate-200 shadow-2xl overflow-hidden flex flex-col">
-                <ComparisonPanel 
-                  rows={alignedRows} 
-                  smartExplanations={smartExplanations} 
-                  viewMode={viewMode} 
-                  comments={comments} 
-                  onAddComment={() => {}} 
-                />
+              <div className="print:hidden flex items-center justify-end gap-4 -mb-2">
+                {insightProgress && (
+                  <span className="mr-auto flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-500">
+                    <div className="w-3 h-3 border-2 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+                    Explained {insightProgress.explained}/{insightProgress.total}
+                    {insightProgress.failed > 0 && <span className="text-rose-500">· {insightProgress.failed} failed</span>}
+                  </span>
+                )}
+                {!insightProgress && failedInsights.length > 0 && (
+                  <span className="mr-auto flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-rose-500">
+                    {failedInsights.length} change{failedInsights.length === 1 ? '' : 's'} could not be explained
+                    <button onClick={handleRetryInsights} className="px-3 py-1.5 rounded-lg border border-rose-200 hover:bg-rose-50 transition-colors">Retry</button>
+                  </span>
+                )}
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={exportInsights} onChange={(e) => setExportInsights(e.target.checked)} className="accent-indigo-600" />
+                  Include AI insights
+                </label>
+                <button
+                  onClick={handleExportDocx}
+                  className="px-4 py-2 rounded-xl border border-slate-200 bg-white text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                >
+                  Export Word Redline
+                </button>
+                <button
+                  onClick={handleExportReport}
+                  className="px-4 py-2 rounded-xl border border-slate-200 bg-white text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                >
+                  Review Report
+                </button>
+                <button
+                  onClick={handlePrintReport}
+                  className="px-4 py-2 rounded-xl border border-slate-200 bg-white text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                >
+                  Print / PDF
+                </button>
+              </div>
+            )}
+            {alignedRows.length > 0 && viewMode === 'split' && changes.length > 0 && (
+              <ReviewBar
+                progress={decisionProgress}
+                formattingPending={changes.filter(c => c.formattingOnly && !decisions[c.id]).length}
+                onAcceptFormatting={() => decideUndecided('accepted', true)}
+                onDecideRemaining={(state) => decideUndecided(state)}
+                onClear={() => setDecisions({})}
+                onExport={handleExportMerged}
+                onUseAsDocumentA={handleUseMergedAsDocumentA}
+              />
+            )}
+            {alignedRows.length > 0 && (
+              <div className="flex-1 bg-white rounded-[2.5rem] border border-slate-200 shadow-2xl overflow-hidden flex flex-col print:border-0 print:shadow-none print:rounded-none print:overflow-visible">
+                {viewMode === 'threeway' && threeWay ? (
+                  <ThreeWayView regions={threeWay} explanations={threeWayExplanations} />
+                ) : viewMode === 'terms' ? (
+                  <KeyTermsView terms={keyTerms} definedTerms={definedTerms} onSelect={handleShowKeyTerm} onSelectDefinedTerm={handleShowDefinedTerm} />
+                ) : (
+                  <ComparisonPanel 
+                    rows={alignedRows} 
+                    smartExplanations={smartExplanations} 
+                    viewMode={viewMode} 
+                    comments={comments} 
+                    currentAuthor={reviewer}
+                    onAuthorChange={handleReviewerChange}
+                    onAddComment={handleAddComment}
+                    onResolveThread={handleResolveThread}
+                    citation={citation}
+                    onClearCitation={() => setCitation(null)}
+                    rowFlags={rowFlags}
+                    sourcePages={sourcePages}
+                    onShowPage={(side, page) => setShownPage({ target: side === 'left' ? '1' : '2', page })}
+                    review={{ changes, decisions, onDecide: handleDecide }}
+                    rowRisk={riskOfRows}
+                  />
+                )}
               </div>
             )}
           </div>
         ) : (
           <div className="flex-1 bg-white rounded-[2.5rem] border border-slate-200 p-6 md:p-12 overflow-y-auto custom-scrollbar">
-            <AnalysisView analysis={analysis} loading={isAnalyzing} />
+            <div className="grid grid-cols-1 2xl:grid-cols-[minmax(0,1fr)_26rem] gap-12">
+              <AnalysisView analysis={analysis} loading={isAnalyzing} progress={analysisProgress} onSelectChange={alignedRows.length && analysisCurrent ? handleShowCitation : undefined} stale={!!analysis && !analysisCurrent} />
+              <div className="space-y-12">
+                <PlaybookView
+                  playbook={playbook}
+                  source={playbookSource}
+                  violations={playbookViolations}
+                  compared={alignedRows.length > 0}
+                  onSave={handleSavePlaybook}
+                  onSelectViolation={handleShowViolation}
+                />
+                <CrossReferencesView
+                  issues={crossReferenceIssues}
+                  compared={alignedRows.length > 0}
+                  onSelectIssue={handleShowCrossReference}
+                />
+              </div>
+            </div>
           </div>
         )}
       </main>
 
-      <footer className="bg-white border-t border-slate-200 p-4">
+      <footer className="print:hidden bg-white border-t border-slate-200 p-4">
         <div className="max-w-[1600px] mx-auto flex justify-between items-center px-4">
           <p className="text-[10px] font-bold text-slate-300 uppercase tracking-widest">Enterprise Legal AI v2.5.0</p>
           <div className="flex items-center gap-4">
              <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-2">
-                <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse"></div> Gemini 3.0 Engine
+                <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse"></div> {PROVIDER_LABELS[llm.provider]}{llm.model ? ` · ${llm.model}` : ''}
              </span>
           </div>
         </div>
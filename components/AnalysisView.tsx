@@ -1,19 +1,30 @@
 
 import React from 'react';
-import { LegalAnalysis } from '../types';
+import { KeyChange, LegalAnalysis } from '../types';
+import { AnalysisProgress } from '../services/aiService';
 
 interface AnalysisViewProps {
   analysis: LegalAnalysis | null;
   loading: boolean;
+  progress?: AnalysisProgress | null;
+  onSelectChange?: (item: KeyChange) => void; // show the rows a key change cites in the redline
+  stale?: boolean; // the documents have been compared again since this analysis
 }
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, loading }) => {
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, loading, progress, onSelectChange, stale }) => {
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center h-96 bg-white rounded-2xl border-2 border-dashed border-slate-200">
         <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-600"></div>
         <p className="mt-6 text-slate-800 font-bold tracking-tight text-lg">AI Legal Engine Analyzing Risks...</p>
-        <p className="text-slate-400 text-sm mt-1">Cross-referencing liability, payments, and termination clauses.</p>
+        <p className="text-slate-400 text-sm mt-1">
+          {progress ? `Clause-by-clause review: step ${Math.min(progress.done + 1, progress.total)} of ${progress.total}` : 'Cross-referencing liability, payments, and termination clauses.'}
+        </p>
+        {progress && (
+          <div className="mt-4 w-64 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+          </div>
+        )}
       </div>
     );
   }
@@ -32,6 +43,11 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, loading })
         <div>
           <h2 className="text-4xl font-bold text-slate-900 font-serif">Deep Legal Report</h2>
           <p className="text-slate-500 font-medium mt-2">{analysis.contractType || 'Standard Commercial Agreement'}</p>
+          {stale && (
+            <p className="mt-3 text-xs font-bold text-amber-700">
+              Based on an earlier comparison. Run the analysis again to link its findings to the redline.
+            </p>
+          )}
         </div>
         <div className={`px-6 py-3 rounded-full border-2 font-bold text-sm flex items-center gap-3 ${riskColors[analysis.riskAssessment.level]}`}>
           <div className="w-2 h-2 rounded-full bg-current animate-pulse"></div>
@@ -49,30 +65,67 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, loading })
           <section className="space-y-6">
             <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest px-2">Key Variance Indicators</h3>
             <div className="space-y-4">
-              {analysis.keyChanges.map((item, idx) => (
-                <div key={idx} className="bg-white p-8 rounded-[2.5rem] border hover:shadow-md transition-shadow">
-                  <div className="flex items-center justify-between mb-4">
-                    <h4 className="font-bold text-xl text-slate-900">{item.clause}</h4>
-                    <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border ${
-                      item.impact === 'positive' ? 'border-emerald-200 text-emerald-600 bg-emerald-50' : 
-                      item.impact === 'negative' ? 'border-rose-200 text-rose-600 bg-rose-50' : 
-                      'border-slate-200 text-slate-500'
-                    }`}>
-                      {item.impact === 'positive' ? 'Favorable' : item.impact === 'negative' ? 'Unfavorable' : 'Neutral'}
-                    </span>
-                  </div>
-                  <p className="text-slate-600 leading-relaxed mb-6">{item.description}</p>
-                  <div className="flex items-center gap-6">
-                    <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                      <div 
-                        className={`h-full transition-all duration-1000 ${item.riskScore > 7 ? 'bg-rose-500' : item.riskScore > 4 ? 'bg-amber-500' : 'bg-indigo-600'}`} 
-                        style={{ width: `${item.riskScore * 10}%` }}
-                      ></div>
+              {analysis.keyChanges.map((item, idx) => {
+                const linked = !!(onSelectChange && item.rows?.length);
+                return (
+                  <div
+                    key={idx}
+                    onClick={linked ? () => onSelectChange!(item) : undefined}
+                    className={`bg-white p-8 rounded-[2.5rem] border hover:shadow-md transition-shadow ${linked ? 'cursor-pointer hover:border-indigo-200' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-3 mb-4">
+                      <h4 className="font-bold text-xl text-slate-900 mr-auto">{item.clause}</h4>
+                      {item.unverified && (
+                        <span
+                          className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-amber-300 text-amber-700 bg-amber-50"
+                          title="The quoted wording could not be found in either document. Check this claim against the redline."
+                        >
+                          Unverified
+                        </span>
+                      )}
+                      <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border ${
+                        item.impact === 'positive' ? 'border-emerald-200 text-emerald-600 bg-emerald-50' : 
+                        item.impact === 'negative' ? 'border-rose-200 text-rose-600 bg-rose-50' : 
+                        'border-slate-200 text-slate-500'
+                      }`}>
+                        {item.impact === 'positive' ? 'Favorable' : item.impact === 'negative' ? 'Unfavorable' : 'Neutral'}
+                      </span>
+                    </div>
+                    <p className="text-slate-600 leading-relaxed mb-6">{item.description}</p>
+                    {(item.quoteA || item.quoteB) && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+                        {([['Version A', item.quoteA, 'border-rose-200'], ['Version B', item.quoteB, 'border-emerald-200']] as const).map(([label, quote, border]) => quote && (
+                          <blockquote key={label} className={`border-l-4 ${border} pl-4 py-1`}>
+                            <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">{label}</span>
+                            <span className="font-serif italic text-sm text-slate-700">"{quote}"</span>
+                          </blockquote>
+                        ))}
+                      </div>
+                    )}
+                    {(item.clauses?.length || item.rows?.length) ? (
+                      <div className="flex flex-wrap items-center gap-2 mb-6">
+                        {item.clauses?.map(clause => (
+                          <span key={clause} className="px-3 py-1 rounded-full bg-slate-100 text-slate-500 text-[10px] font-bold">{clause}</span>
+                        ))}
+                        {item.rows?.length ? (
+                          <span className={`text-[10px] font-black uppercase tracking-widest ${linked ? 'text-indigo-500' : 'text-slate-400'}`}>
+                            Based on {item.rows.length} {item.rows.length === 1 ? 'change' : 'changes'}{linked ? ' · View in redline →' : ''}
+                          </span>
+                        ) : null}
+                      </div>
+                    ) : null}
+                    <div className="flex items-center gap-6">
+                      <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div 
+                          className={`h-full transition-all duration-1000 ${item.riskScore > 7 ? 'bg-rose-500' : item.riskScore > 4 ? 'bg-amber-500' : 'bg-indigo-600'}`} 
+                          style={{ width: `${item.riskScore * 10}%` }}
+                        ></div>
+                      </div>
+                      <span className="text-[10px] font-black text-slate-400">IMPACT {item.riskScore}/10</span>
                     </div>
-                    <span className="text-[10px] font-black text-slate-400">IMPACT {item.riskScore}/10</span>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </section>
         </div>
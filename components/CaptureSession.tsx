@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CapturedPage, FULL_CROP, MAX_ROTATION, PageCrop, estimateRotation, renderPage } from '../utils/pageImage';
+
+interface CaptureSessionProps {
+  onDone: (pages: HTMLCanvasElement[]) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+const THUMBNAIL_WIDTH = 160;
+const EDITOR_WIDTH = 900;
+
+const PageEditor: React.FC<{
+  page: CapturedPage;
+  onChange: (page: CapturedPage) => void;
+  onClose: () => void;
+}> = ({ page, onChange, onClose }) => {
+  const [drag, setDrag] = useState<{ x: number; y: number } | null>(null);
+  const frame = useRef<HTMLDivElement>(null);
+  // The straightened frame the crop is drawn on, scaled down for display.
+  const preview = useMemo(
+    () => renderPage({ ...page, crop: FULL_CROP }, EDITOR_WIDTH).toDataURL('image/jpeg', 0.8),
+    [page.image, page.rotation]
+  );
+
+  const pointAt = (e: React.PointerEvent) => {
+    const box = frame.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - box.left) / box.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - box.top) / box.height)),
+    };
+  };
+
+  const cropBetween = (a: { x: number; y: number }, b: { x: number; y: number }): PageCrop => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  const handleMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const crop = cropBetween(drag, pointAt(e));
+    if (crop.width > 0.02 && crop.height > 0.02) onChange({ ...page, crop });
+  };
+
+  return (
+    <div className="w-full max-w-3xl space-y-4">
+      <div
+        ref={frame}
+        className="relative select-none touch-none cursor-crosshair rounded-2xl overflow-hidden"
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setDrag(pointAt(e)); }}
+        onPointerMove={handleMove}
+        onPointerUp={() => setDrag(null)}
+      >
+        <img src={preview} alt="" className="w-full block" draggable={false} />
+        <div
+          className="absolute border-2 border-indigo-400 shadow-[0_0_0_9999px_rgba(15,23,42,0.55)] pointer-events-none"
+          style={{ left: `${page.crop.x * 100}%`, top: `${page.crop.y * 100}%`, width: `${page.crop.width * 100}%`, height: `${page.crop.height * 100}%` }}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-white">
+        <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-white/60">
+          Straighten
+          <input
+            type="range"
+            min={-MAX_ROTATION}
+            max={MAX_ROTATION}
+            step={0.5}
+            value={page.rotation}
+            onChange={(e) => onChange({ ...page, rotation: Number(e.target.value) })}
+            className="w-48 accent-indigo-500"
+          />
+          <span className="w-10 text-white">{page.rotation}°</span>
+        </label>
+        <button onClick={() => onChange({ ...page, rotation: estimateRotation(page.image) })} className="px-4 py-2 rounded-xl bg-white/10 text-xs font-bold">Auto-straighten</button>
+        <button onClick={() => onChange({ ...page, crop: FULL_CROP })} className="px-4 py-2 rounded-xl bg-white/10 text-xs font-bold">Reset crop</button>
+        <button onClick={onClose} className="ml-auto px-6 py-2 rounded-xl bg-indigo-600 text-xs font-bold">Done</button>
+      </div>
+      <p className="text-xs text-white/40">Drag across the page to crop it to the text.</p>
+    </div>
+  );
+};
+
+/**
+ * Photographs a document page by page. Pages can be reordered, retaken, deleted,
+ * cropped and straightened before they are read, in order, as one document.
+ */
+export const CaptureSession: React.FC<CaptureSessionProps> = ({ onDone, onCancel, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [pages, setPages] = useState<CapturedPage[]>([]);
+  const [retaking, setRetaking] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  // Pages are replaced, never mutated, on every edit, so a thumbnail is only redrawn for the page that changed.
+  const thumbnails = useRef(new WeakMap<CapturedPage, string>());
+  const thumbnailOf = (page: CapturedPage) => {
+    if (!thumbnails.current.has(page)) thumbnails.current.set(page, renderPage(page, THUMBNAIL_WIDTH).toDataURL('image/jpeg', 0.7));
+    return thumbnails.current.get(page);
+  };
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 } } })
+      .then(s => {
+        stream = s;
+        if (cancelled) s.getTracks().forEach(t => t.stop());
+        else if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(() => onError("Unable to access camera."));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    const image = document.createElement('canvas');
+    image.width = video.videoWidth;
+    image.height = video.videoHeight;
+    image.getContext('2d')!.drawImage(video, 0, 0);
+    // Photos of paper are rarely level; start from the estimated correction.
+    const rotation = estimateRotation(image);
+    if (retaking) {
+      setPages(prev => prev.map(p => p.id === retaking ? { ...p, image, rotation, crop: FULL_CROP } : p));
+      setRetaking(null);
+    } else {
+      setPages(prev => [...prev, { id: crypto.randomUUID(), image, crop: FULL_CROP, rotation }]);
+    }
+  };
+
+  const move = (index: number, delta: number) => setPages(prev => {
+    const next = [...prev];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    return next;
+  });
+
+  const editedPage = pages.find(p => p.id === editing);
+  const retakeIndex = pages.findIndex(p => p.id === retaking);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/95 flex flex-col items-center p-6 gap-6 overflow-y-auto">
+      <div className="w-full max-w-5xl flex items-center justify-between text-white">
+        <div>
+          <span className="text-[10px] font-black uppercase tracking-widest text-white/40 block">Capture session</span>
+          <h3 className="text-lg font-bold">{pages.length} {pages.length === 1 ? 'page' : 'pages'}</h3>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={onCancel} className="px-6 py-3 rounded-xl bg-white/10 font-bold">Cancel</button>
+          <button
+            onClick={() => onDone(pages.map(page => renderPage(page)))}
+            disabled={!pages.length || !!editing}
+            className="px-6 py-3 rounded-xl bg-indigo-600 font-bold shadow-xl shadow-indigo-500/20 disabled:opacity-40"
+          >
+            Read {pages.length || ''} {pages.length === 1 ? 'page' : 'pages'}
+          </button>
+        </div>
+      </div>
+
+      {editedPage && (
+        <PageEditor
+          page={editedPage}
+          onChange={(page) => setPages(prev => prev.map(p => p.id === page.id ? page : p))}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      {/* Hidden rather than unmounted while editing, so the camera stream stays attached. */}
+      <div className={`w-full max-w-2xl space-y-4 ${editedPage ? 'hidden' : ''}`}>
+        <video ref={videoRef} autoPlay playsInline className="w-full rounded-3xl overflow-hidden shadow-2xl border border-white/10" />
+        <div className="flex justify-center gap-4">
+          {retaking && <button onClick={() => setRetaking(null)} className="px-6 py-3 rounded-xl bg-white/10 text-white font-bold">Keep page {retakeIndex + 1}</button>}
+          <button onClick={capture} className="px-8 py-3 rounded-xl bg-white text-slate-900 font-bold">
+            {retaking ? `Retake page ${retakeIndex + 1}` : `Capture page ${pages.length + 1}`}
+          </button>
+        </div>
+      </div>
+
+      {pages.length > 0 && (
+        <div className="w-full max-w-5xl flex gap-4 overflow-x-auto custom-scrollbar pb-2">
+          {pages.map((page, index) => (
+            <div key={page.id} className={`shrink-0 w-40 rounded-2xl p-2 space-y-2 ${page.id === editing || page.id === retaking ? 'bg-indigo-600/40' : 'bg-white/5'}`}>
+              <button onClick={() => { setEditing(page.id); setRetaking(null); }} className="block w-full" title="Crop and straighten">
+                <img src={thumbnailOf(page)} alt={`Page ${index + 1}`} className="w-full h-48 object-contain bg-white rounded-xl" />
+              </button>
+              <div className="flex items-center justify-between text-white/70 text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="px-1 disabled:opacity-20" title="Move earlier">←</button>
+                <span className="text-white">Page {index + 1}</span>
+                <button onClick={() => move(index, 1)} disabled={index === pages.length - 1} className="px-1 disabled:opacity-20" title="Move later">→</button>
+              </div>
+              <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => { setRetaking(page.id); setEditing(null); }} className="text-white/50 hover:text-white">Retake</button>
+                <button onClick={() => { setPages(prev => prev.filter(p => p.id !== page.id)); if (editing === page.id) setEditing(null); }} className="text-rose-300/70 hover:text-rose-300">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
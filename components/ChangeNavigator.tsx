@@ -0,0 +1,132 @@
+import React from 'react';
+import { ChangeKind, EMPTY_FILTER, MinimapBucket, NavigatorFilter, isFilterActive, splitMatches } from '../utils/navigator';
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  added: 'bg-emerald-600 text-white border-emerald-600',
+  removed: 'bg-rose-600 text-white border-rose-600',
+  moved: 'bg-sky-600 text-white border-sky-600',
+};
+
+interface NavigatorBarProps {
+  stop: number | null; // position among the change stops, null when the current row is not one
+  stops: number;
+  onStep: (delta: number) => void;
+  filter: NavigatorFilter;
+  onFilterChange: (filter: NavigatorFilter) => void;
+  clauses: string[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  hit: number | null; // position among the rows with a search hit
+  hitRows: number;
+  matches: number;
+  onStepHit: (delta: number) => void;
+}
+
+/** Steps through the changes of a comparison, narrowed by the filters, and searches both sides. */
+export const NavigatorBar: React.FC<NavigatorBarProps> = ({
+  stop, stops, onStep, filter, onFilterChange, clauses, query, onQueryChange, hit, hitRows, matches, onStepHit
+}) => {
+  const chip = (active: boolean, activeStyle = 'bg-indigo-600 text-white border-indigo-600') =>
+    `px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest transition-colors ${
+      active ? activeStyle : 'border-slate-200 text-slate-400 hover:text-slate-700 hover:border-slate-300'
+    }`;
+  const toggleKind = (kind: ChangeKind) => onFilterChange({
+    ...filter,
+    kinds: filter.kinds.includes(kind) ? filter.kinds.filter(k => k !== kind) : [...filter.kinds, kind],
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-10 py-2 bg-white/95 border-b border-slate-200 print:hidden">
+      <div className="flex items-center gap-1 mr-2">
+        <button onClick={() => onStep(-1)} disabled={!stops} className="px-2 py-1 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Previous change (p)">↑</button>
+        <button onClick={() => onStep(1)} disabled={!stops} className="px-2 py-1 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Next change (n)">↓</button>
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-28">
+          {stops ? `Change ${stop === null ? '–' : stop + 1} of ${stops}` : 'No changes'}
+        </span>
+      </div>
+      {(['added', 'removed', 'moved'] as const).map(kind => (
+        <button key={kind} onClick={() => toggleKind(kind)} className={chip(filter.kinds.includes(kind), KIND_STYLES[kind])}>{kind}</button>
+      ))}
+      <button onClick={() => onFilterChange({ ...filter, insight: !filter.insight })} className={chip(filter.insight)}>AI insight</button>
+      <button onClick={() => onFilterChange({ ...filter, comment: !filter.comment })} className={chip(filter.comment)}>Comments</button>
+      {clauses.length > 0 && (
+        <select
+          value={filter.clause}
+          onChange={(e) => onFilterChange({ ...filter, clause: e.target.value })}
+          className="max-w-[14rem] px-3 py-1 rounded-full border border-slate-200 bg-white text-[10px] font-bold text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        >
+          <option value="">All clauses</option>
+          {clauses.map(clause => <option key={clause} value={clause}>{clause}</option>)}
+        </select>
+      )}
+      {isFilterActive(filter) && (
+        <button onClick={() => onFilterChange(EMPTY_FILTER)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">
+          Reset
+        </button>
+      )}
+      <div className="ml-auto flex items-center gap-1">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') onStepHit(e.shiftKey ? -1 : 1); }}
+          placeholder="Search both versions"
+          className="w-56 px-3 py-1.5 rounded-lg border border-slate-200 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        {query.trim() && (
+          <>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap px-1">
+              {matches ? `${matches} in ${hit === null ? '' : `${hit + 1}/`}${hitRows} ${hitRows === 1 ? 'row' : 'rows'}` : 'No matches'}
+            </span>
+            <button onClick={() => onStepHit(-1)} disabled={!hitRows} className="px-2 py-1 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Previous match (Shift+Enter)">↑</button>
+            <button onClick={() => onStepHit(1)} disabled={!hitRows} className="px-2 py-1 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Next match (Enter)">↓</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/** Marks the occurrences of the search query in a piece of row text. */
+export const Highlighted: React.FC<{ text: string; query?: string }> = ({ text, query }) => {
+  if (!query?.trim()) return <>{text}</>;
+  return (
+    <>
+      {splitMatches(text, query).map((part, i) => (
+        part.match ? <mark key={i} className="bg-yellow-200 text-inherit rounded-sm">{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
+
+const bucketColor = (bucket: MinimapBucket) =>
+  bucket.risk > 7 ? 'bg-rose-500' : bucket.risk > 4 ? 'bg-amber-500' : 'bg-indigo-500';
+
+/**
+ * A strip beside the rows showing where changes cluster: each band is a slice of the
+ * rows, shaded by how many of them changed and coloured by their highest risk.
+ */
+export const Minimap: React.FC<{
+  buckets: MinimapBucket[];
+  current: number | null; // row last navigated to
+  onJump: (row: number) => void;
+}> = ({ buckets, current, onJump }) => (
+  <div className="w-3 shrink-0 flex flex-col bg-slate-50 border-l border-slate-100 print:hidden" aria-label="Change minimap">
+    {buckets.map(bucket => {
+      const here = current !== null && current >= bucket.first && current < bucket.first + bucket.rows;
+      return (
+        <button
+          key={bucket.first}
+          onClick={() => onJump(bucket.first)}
+          className={`relative flex-1 min-h-px w-full ${here ? 'ring-1 ring-inset ring-slate-900' : ''}`}
+          title={bucket.changes ? `${bucket.changes} ${bucket.changes === 1 ? 'change' : 'changes'}${bucket.risk ? ` · risk ${bucket.risk}/10` : ''}` : undefined}
+        >
+          {bucket.changes > 0 && (
+            <span className={`absolute inset-0 ${bucketColor(bucket)}`} style={{ opacity: 0.25 + 0.75 * (bucket.changes / bucket.rows) }} />
+          )}
+          {bucket.found && <span className="absolute inset-x-0 top-1/2 h-0.5 -translate-y-1/2 bg-yellow-400" />}
+        </button>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { CommentThread } from '../utils/comments';
+
+interface CommentGutterProps {
+  threads: CommentThread[];
+  active: boolean;
+  onToggle: () => void;
+}
+
+export const CommentGutter: React.FC<CommentGutterProps> = ({ threads, active, onToggle }) => {
+  const count = threads.reduce((sum, t) => sum + 1 + t.replies.length, 0);
+  const open = threads.some(t => !t.root.resolved);
+
+  return (
+    <div className="w-10 shrink-0 flex items-start justify-center pt-6 print:hidden">
+      {count > 0 ? (
+        <button
+          onClick={onToggle}
+          title={`${threads.length} thread${threads.length === 1 ? '' : 's'}`}
+          className={`min-w-[1.5rem] h-6 px-1.5 rounded-full text-[10px] font-black flex items-center justify-center transition-all ${
+            open ? 'bg-amber-400 text-amber-950 shadow-md shadow-amber-200' : 'bg-slate-200 text-slate-500'
+          } ${active ? 'ring-2 ring-indigo-500 ring-offset-2' : ''}`}
+        >
+          {count}
+        </button>
+      ) : (
+        <button
+          onClick={onToggle}
+          title="Add comment"
+          className={`w-6 h-6 rounded-full border border-dashed border-slate-300 text-slate-400 text-xs font-bold flex items-center justify-center hover:border-indigo-400 hover:text-indigo-600 transition-all ${
+            active ? 'opacity-100' : 'opacity-0 group-hover/row:opacity-100'
+          }`}
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+};
+
+const Composer: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (text: string) => void;
+}> = ({ placeholder, submitLabel, onSubmit }) => {
+  const [text, setText] = useState('');
+  const submit = () => {
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+    setText('');
+  };
+
+  return (
+    <div className="flex gap-3 items-end">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit(); }}
+        placeholder={placeholder}
+        rows={2}
+        className="flex-1 p-3 text-sm rounded-xl border border-slate-200 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-200 bg-white"
+      />
+      <button
+        onClick={submit}
+        disabled={!text.trim()}
+        className="px-4 py-2 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all disabled:opacity-40"
+      >
+        {submitLabel}
+      </button>
+    </div>
+  );
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface CommentThreadPanelProps {
+  threads: CommentThread[];
+  currentAuthor: string;
+  onAuthorChange: (author: string) => void;
+  onAddComment: (text: string, parentId?: string) => void;
+  onResolveThread: (id: string, resolved: boolean) => void;
+}
+
+export const CommentThreadPanel: React.FC<CommentThreadPanelProps> = ({
+  threads, currentAuthor, onAuthorChange, onAddComment, onResolveThread
+}) => (
+  <div className="bg-slate-50 border-t border-slate-100 px-10 py-6 space-y-6 print:hidden">
+    {threads.map(({ root, replies }) => (
+      <div key={root.id} className={`bg-white rounded-2xl border p-5 space-y-4 ${root.resolved ? 'border-slate-100 opacity-60' : 'border-amber-200'}`}>
+        <div className="flex items-center justify-between">
+          <span className={`text-[10px] font-black uppercase tracking-widest ${root.resolved ? 'text-slate-400' : 'text-amber-600'}`}>
+            {root.resolved ? 'Resolved' : 'Open thread'}
+            {root.orphaned && <span className="ml-3 text-rose-500">Change no longer present</span>}
+          </span>
+          <button
+            onClick={() => onResolveThread(root.id, !root.resolved)}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition-colors"
+          >
+            {root.resolved ? 'Reopen' : 'Resolve'}
+          </button>
+        </div>
+        {[root, ...replies].map(comment => (
+          <div key={comment.id} className={comment.parentId ? 'pl-6 border-l-2 border-slate-100' : ''}>
+            <div className="flex items-baseline gap-3">
+              <span className="text-xs font-bold text-slate-800">{comment.author}</span>
+              <span className="text-[10px] text-slate-400">{formatTime(comment.timestamp)}</span>
+              {comment.importedFrom && (
+                <span className="text-[9px] font-black uppercase tracking-widest text-sky-500" title={comment.importedFrom}>From Word</span>
+              )}
+            </div>
+            <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-wrap">{comment.text}</p>
+          </div>
+        ))}
+        {!root.resolved && (
+          <Composer placeholder="Reply..." submitLabel="Reply" onSubmit={(text) => onAddComment(text, root.id)} />
+        )}
+      </div>
+    ))}
+
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Commenting as</span>
+        <input
+          value={currentAuthor}
+          onChange={(e) => onAuthorChange(e.target.value)}
+          className="px-3 py-1 text-xs font-bold rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+      </div>
+      <Composer
+        placeholder={threads.length ? 'Start a new thread on this change...' : 'Comment on this change...'}
+        submitLabel="Comment"
+        onSubmit={(text) => onAddComment(text)}
+      />
+    </div>
+  </div>
+);
@@ -1,21 +1,99 @@
 
-import React from 'react';
-import { AlignedRow, ViewMode, UserComment, DiffChange } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlignedRow, ViewMode, UserComment, DiffChange, MoveLink, NumericChange, RowFlag, ChangeDecision } from '../types';
+import { groupThreads } from '../utils/comments';
+import { ReviewChange } from '../utils/review';
+import { EMPTY_FILTER, NavigatorFilter, changeKinds, changeStops, isFilterActive, matchesFilter, minimapBuckets, searchRows, topClause } from '../utils/navigator';
+import { Highlighted, Minimap, NavigatorBar } from './ChangeNavigator';
+import { CommentGutter, CommentThreadPanel } from './CommentThreads';
+import { DECISION_STYLES, DecisionControls } from './ReviewControls';
 
 interface ComparisonPanelProps {
   rows: AlignedRow[];
   smartExplanations: Record<number, string>;
   viewMode: ViewMode;
   comments: UserComment[];
-  onAddComment: (index: number) => void;
+  currentAuthor: string;
+  onAuthorChange: (author: string) => void;
+  onAddComment: (index: number, text: string, parentId?: string) => void;
+  onResolveThread: (id: string, resolved: boolean) => void;
+  citation?: { label: string; rows: number[] } | null; // rows cited by a key change of the analysis
+  onClearCitation?: () => void;
+  rowFlags?: Record<number, RowFlag[]>;
+  sourcePages?: { left?: number[]; right?: number[] }; // page of each row, for documents captured page by page
+  onShowPage?: (side: 'left' | 'right', page: number) => void;
+  review?: {
+    changes: ReviewChange[];
+    decisions: Record<number, ChangeDecision>; // by change id
+    onDecide: (changeId: number, decision: ChangeDecision | null) => void;
+  };
+  rowRisk?: number[]; // 0-10 per row, from the analysis and the playbook
 }
 
+const MINIMAP_BUCKETS = 200;
+
+// Keys typed into a form control belong to it, not to the navigator.
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const FLAG_STYLES: Record<RowFlag['kind'], string> = {
+  playbook: 'bg-rose-50 border-rose-200 text-rose-600',
+  definition: 'bg-violet-50 border-violet-200 text-violet-700',
+  reference: 'bg-amber-50 border-amber-200 text-amber-700',
+};
+
+const MoveBadge: React.FC<{ move: MoveLink; index: number; target: string; onJump: (index: number) => void }> = ({ move, index, target, onJump }) => (
+  <button
+    onClick={() => onJump(move.counterpart)}
+    className="mb-3 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-sky-100 text-sky-700 text-[10px] font-black uppercase tracking-widest hover:bg-sky-200 transition-colors print:hidden"
+  >
+    {move.role === 'source' ? 'Moved to' : 'Moved from'} {target || 'elsewhere'}
+    <span aria-hidden>{move.counterpart > index ? '↓' : '↑'}</span>
+    {move.similarity < 1 && <span className="font-bold normal-case tracking-normal text-sky-500">edited</span>}
+  </button>
+);
+
+const InlineChanges: React.FC<{ changes: DiffChange[]; query?: string }> = ({ changes, query }) => (
+  <>
+    {changes.map((change, i) => (
+      change.type === 'removed' ? <del key={i} className="text-rose-600 decoration-2"><Highlighted text={change.value} query={query} /></del>
+      : change.type === 'added' ? <ins key={i} className="text-emerald-700 underline decoration-2 underline-offset-4"><Highlighted text={change.value} query={query} /></ins>
+      : <span key={i}><Highlighted text={change.value} query={query} /></span>
+    ))}
+  </>
+);
+
+// Characters that actually changed inside a replaced word, e.g. the "6" and "5" of "$6,500".
+const CharacterSegments: React.FC<{ segments: DiffChange[]; query?: string }> = ({ segments, query }) => (
+  <>
+    {segments.map((segment, i) => (
+      segment.type === 'unchanged' ? <span key={i}><Highlighted text={segment.value} query={query} /></span>
+      : <mark key={i} className={`rounded-sm px-px font-bold ${segment.type === 'removed' ? 'bg-rose-200 text-rose-950' : 'bg-emerald-200 text-emerald-950'}`}><Highlighted text={segment.value} query={query} /></mark>
+    ))}
+  </>
+);
+
+const NumericBadge: React.FC<{ change: NumericChange }> = ({ change }) => (
+  <span className="mt-3 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-amber-50 border border-amber-200 text-[10px] font-bold text-amber-800">
+    <span className="line-through opacity-60">{change.was}</span>
+    <span aria-hidden>→</span>
+    <span>{change.now}</span>
+    <span className="font-black">{change.delta}</span>
+  </span>
+);
+
 const DiffCell: React.FC<{ 
   part: DiffChange | null; 
   index: number; 
   explanation?: string;
   isLeft: boolean;
-}> = ({ part, index, explanation, isLeft }) => {
+  move?: MoveLink;
+  moveTarget?: string;
+  onJump?: (index: number) => void;
+  numericChange?: NumericChange;
+  ignored?: boolean;
+  query?: string; // search query to highlight
+}> = ({ part, index, explanation, isLeft, move, moveTarget, onJump, numericChange, ignored, query }) => {
   if (!part) {
     return (
       <div className="flex-1 min-h-[4rem] bg-slate-50/10 flex items-center justify-center p-4">
@@ -28,15 +106,23 @@ const DiffCell: React.FC<{
 
   return (
     <div 
+      title={ignored ? 'Ignored by the comparison settings' : undefined}
       className={`
         flex-1 relative group p-6 min-h-[4rem] transition-all duration-300
         ${part.type === 'added' ? 'bg-emerald-50/30 text-emerald-900 font-medium' : ''}
         ${part.type === 'removed' ? 'bg-rose-50/30 text-rose-900 line-through opacity-40' : ''}
-        ${part.type === 'unchanged' ? 'text-slate-600' : ''}
+        ${part.type === 'moved' ? 'bg-sky-50/40 text-sky-900' : ''}
+        ${part.type === 'unchanged' ? (ignored ? 'text-slate-300 italic' : 'text-slate-600') : ''}
         ${isChange ? 'hover:bg-slate-50/60 ring-1 ring-inset ring-slate-100/50' : ''}
       `}
     >
-      <span className="font-mono text-[14px] leading-[1.7] break-words block whitespace-pre-wrap">{part.value}</span>
+      {part.type === 'moved' && move && onJump && <MoveBadge move={move} index={index} target={moveTarget ?? ''} onJump={onJump} />}
+      <span className="font-mono text-[14px] leading-[1.7] break-words block whitespace-pre-wrap">
+        {part.type === 'moved' && move?.edits ? <InlineChanges changes={move.edits} query={query} />
+          : part.segments ? <CharacterSegments segments={part.segments} query={query} />
+          : <Highlighted text={part.value} query={query} />}
+      </span>
+      {numericChange && <NumericBadge change={numericChange} />}
       
       {explanation && isChange && (
         <div className={`
@@ -56,26 +142,421 @@ const DiffCell: React.FC<{
   );
 };
 
-export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ rows, smartExplanations, onAddComment }) => {
+const clauseLabel = (path?: string[]) => (path ?? []).slice(-2).join(' › ');
+
+const UnifiedSegment: React.FC<{
+  row: AlignedRow;
+  index: number;
+  explanation?: string;
+  footnote?: number;
+  query?: string; // search query to highlight
+  flags?: RowFlag[];
+  className?: string; // navigation, citation and filter highlighting
+}> = ({ row, index, explanation, footnote, query, flags, className = '' }) => {
+  const removed = row.left && row.left.type === 'removed' ? row.left.value : null;
+  const added = row.right && row.right.type === 'added' ? row.right.value : null;
+
+  // Ignored boilerplate comes as a left-only and a right-only row; show it once, as it now stands.
+  if (row.ignored && !row.right) return null;
+
+  let content: React.ReactNode;
+  if (row.move) {
+    // Word's convention: double strike at the old location, double underline at the new one.
+    content = (
+      <span className="text-sky-700 bg-sky-50 print:bg-transparent">
+        {row.move.role === 'source' ? (
+          <del className="decoration-double decoration-sky-500"><Highlighted text={row.left?.value ?? ''} query={query} /></del>
+        ) : (
+          <ins className="underline decoration-double decoration-sky-500 underline-offset-4">
+            {row.move.edits ? <InlineChanges changes={row.move.edits} query={query} /> : <Highlighted text={row.right?.value ?? ''} query={query} />}
+          </ins>
+        )}
+        <a
+          href={`#diff-row-${row.move.counterpart}`}
+          className="ml-0.5 align-super text-[10px] font-black text-sky-600 no-underline print:hidden"
+          title={row.move.role === 'source' ? 'Jump to new location' : 'Jump to original location'}
+        >
+          {row.move.role === 'source' ? `→M${row.move.id}` : `M${row.move.id}←`}
+        </a>
+      </span>
+    );
+  } else if (!removed && !added) {
+    content = (
+      <span className={row.ignored ? 'text-slate-300 italic' : 'text-slate-600'}>
+        <Highlighted text={row.left?.value ?? row.right?.value ?? ''} query={query} />
+      </span>
+    );
+  } else {
+    content = (
+      <span className="relative group/seg">
+        {removed && (
+          <del className="bg-rose-50 text-rose-700 decoration-rose-500 decoration-2 print:bg-transparent">
+            {row.left?.segments ? <CharacterSegments segments={row.left.segments} query={query} /> : <Highlighted text={removed} query={query} />}
+          </del>
+        )}
+        {added && (
+          <ins className="bg-emerald-50 text-emerald-800 underline decoration-emerald-500 decoration-2 underline-offset-4 print:bg-transparent">
+            {row.right?.segments ? <CharacterSegments segments={row.right.segments} query={query} /> : <Highlighted text={added} query={query} />}
+          </ins>
+        )}
+        {row.numericChange && (
+          <sup className="ml-1 text-[10px] font-black text-amber-700 print:text-black">{row.numericChange.delta}</sup>
+        )}
+        {explanation && footnote !== undefined && (
+          <>
+            <sup className="ml-0.5 text-[10px] font-black text-indigo-600 cursor-help select-none">[{footnote}]</sup>
+            <span className="hidden lg:block absolute left-0 top-full mt-2 z-50 w-80 opacity-0 group-hover/seg:opacity-100 pointer-events-none transition-opacity duration-300 print:hidden">
+              <span className="block bg-slate-900 text-white p-6 rounded-[2rem] shadow-2xl border border-white/10 font-sans not-italic">
+                <span className="flex items-center gap-3 mb-3">
+                  <span className="w-2.5 h-2.5 rounded-full bg-indigo-500 animate-pulse"></span>
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400">AI Legal Insight</span>
+                </span>
+                <span className="block text-xs font-medium leading-relaxed italic text-slate-200">"{explanation}"</span>
+              </span>
+            </span>
+          </>
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <span id={`diff-row-${index}`} data-row={index} className={`transition-colors duration-700 ${className}`}>
+      {flags?.map(flag => (
+        <span key={flag.label} className={`inline-block mr-1 px-2 rounded-full border align-middle font-sans text-[9px] leading-4 font-black uppercase tracking-widest whitespace-nowrap print:hidden ${FLAG_STYLES[flag.kind]}`}>
+          {flag.label}
+        </span>
+      ))}
+      {content}
+    </span>
+  );
+};
+
+const UnifiedView: React.FC<{
+  rows: AlignedRow[];
+  smartExplanations: Record<number, string>;
+  navigation: React.ReactNode; // the navigator and citation bars shared with the split view
+  query: string;
+  rowFlags?: Record<number, RowFlag[]>;
+  rowClass: (index: number) => string;
+}> = ({ rows, smartExplanations, navigation, query, rowFlags, rowClass }) => {
+  // Footnote numbers follow document order so the printed insight list lines up with the markers.
+  const footnotes = rows
+    .map((_, idx) => idx)
+    .filter(idx => smartExplanations[idx]);
+  const footnoteOf = new Map(footnotes.map((idx, n) => [idx, n + 1]));
+
   return (
-    <div className="flex flex-col h-full bg-white overflow-y-auto custom-scrollbar">
-      <div className="sticky top-0 z-40 flex bg-white/95 backdrop-blur-md border-b border-slate-200 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] shadow-sm">
-        <div className="flex-1 p-4 px-10 border-r border-slate-100 flex items-center gap-3">
-          <div className="w-2 h-2 rounded-full bg-slate-200"></div> Original Text
+    <div className="flex-1 min-w-0 flex flex-col h-full bg-white overflow-y-auto custom-scrollbar print:overflow-visible print:h-auto">
+      <div className="sticky top-0 z-40 shadow-sm print:static print:shadow-none">
+        <div className="flex items-center justify-between bg-white/95 backdrop-blur-md border-b border-slate-200 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] p-4 px-10">
+          <div className="flex items-center gap-3">
+            <div className="w-2 h-2 rounded-full bg-indigo-500"></div> Inline Redline
+            <span className="normal-case tracking-normal font-bold text-slate-300 print:hidden">Comments and accept / reject are in the split view</span>
+          </div>
+          <div className="flex items-center gap-6 normal-case tracking-normal font-bold">
+            <span className="flex items-center gap-2"><del className="text-rose-600 decoration-2">Deleted</del></span>
+            <span className="flex items-center gap-2"><ins className="text-emerald-700 underline decoration-2 underline-offset-4">Inserted</ins></span>
+            <span className="flex items-center gap-2"><ins className="text-sky-700 underline decoration-double underline-offset-4">Moved</ins></span>
+            <button
+              onClick={() => window.print()}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-colors print:hidden"
+            >
+              Print
+            </button>
+          </div>
         </div>
-        <div className="flex-1 p-4 px-10 flex items-center gap-3">
-          <div className="w-2 h-2 rounded-full bg-indigo-500"></div> Revised Version
+        {navigation}
+      </div>
+
+      <div className="p-10 md:px-16 print:p-0">
+        <p className="font-mono text-[14px] leading-[2] break-words whitespace-pre-wrap text-slate-700 print:font-serif print:text-[12pt]">
+          {rows.map((row, idx) => (
+            <UnifiedSegment
+              key={idx}
+              row={row}
+              index={idx}
+              explanation={smartExplanations[idx]}
+              footnote={footnoteOf.get(idx)}
+              query={query}
+              flags={rowFlags?.[idx]}
+              className={rowClass(idx)}
+            />
+          ))}
+        </p>
+
+        {footnotes.length > 0 && (
+          <section className="mt-12 pt-8 border-t border-slate-100 print:break-inside-avoid">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400 mb-6">AI Legal Insights</h3>
+            <ol className="space-y-3">
+              {footnotes.map((idx, n) => (
+                <li key={idx} className="flex gap-4 text-xs leading-relaxed text-slate-600">
+                  <span className="font-black text-indigo-600 shrink-0">[{n + 1}]</span>
+                  <span className="italic">{smartExplanations[idx]}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  rows, smartExplanations, viewMode, comments, currentAuthor, onAuthorChange, onAddComment, onResolveThread, citation, onClearCitation, rowFlags,
+  sourcePages, onShowPage, review, rowRisk
+}) => {
+  const [openRow, setOpenRow] = useState<number | null>(null);
+  const [flashRow, setFlashRow] = useState<number | null>(null);
+  const [citedIndex, setCitedIndex] = useState(0);
+  const cited = useMemo(() => new Set(citation?.rows ?? []), [citation]);
+
+  const jumpToRow = (index: number) => {
+    document.getElementById(`diff-row-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFlashRow(index);
+    setTimeout(() => setFlashRow(current => (current === index ? null : current)), 1500);
+  };
+  const threads = useMemo(() => groupThreads(comments), [comments]);
+
+  const [filter, setFilter] = useState<NavigatorFilter>(EMPTY_FILTER);
+  const [query, setQuery] = useState('');
+  const [hit, setHit] = useState<number | null>(null);
+  const [currentRow, setCurrentRow] = useState<number | null>(null);
+  const matching = useMemo(
+    () => rows.map((row, idx) => matchesFilter(row, idx, filter, smartExplanations, threads)),
+    [rows, filter, smartExplanations, threads]
+  );
+  const stops = useMemo(() => changeStops(matching), [matching]);
+  const clauses = useMemo(
+    () => [...new Set(rows.filter(row => changeKinds(row).length).map(topClause).filter(Boolean))],
+    [rows]
+  );
+  const search = useMemo(() => searchRows(rows, query), [rows, query]);
+  const buckets = useMemo(
+    () => minimapBuckets(matching, rowRisk ?? [], new Set(search.rows), MINIMAP_BUCKETS),
+    [matching, rowRisk, search]
+  );
+  const filtering = isFilterActive(filter);
+
+  useEffect(() => setHit(null), [search]);
+  // The position is kept as a row, so it survives the stops being rebuilt as insights and comments arrive.
+  const stop = currentRow === null || !stops.includes(currentRow) ? null : stops.indexOf(currentRow);
+
+  const navigateTo = (index: number) => {
+    setCurrentRow(index);
+    jumpToRow(index);
+  };
+
+  // Steps to the nearest stop after (or before) the current row, wrapping around at either end.
+  const stepChange = (delta: number) => {
+    if (!stops.length) return;
+    const next = currentRow === null
+      ? (delta > 0 ? stops[0] : stops[stops.length - 1])
+      : delta > 0
+        ? stops.find(row => row > currentRow) ?? stops[0]
+        : [...stops].reverse().find(row => row < currentRow) ?? stops[stops.length - 1];
+    navigateTo(next);
+  };
+
+  const stepHit = (delta: number) => {
+    if (!search.rows.length) return;
+    const next = hit === null ? (delta > 0 ? 0 : search.rows.length - 1) : (hit + delta + search.rows.length) % search.rows.length;
+    setHit(next);
+    navigateTo(search.rows[next]);
+  };
+
+  const stepChangeRef = useRef(stepChange);
+  stepChangeRef.current = stepChange;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === 'n') stepChangeRef.current(1);
+      else if (e.key === 'p') stepChangeRef.current(-1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const changeOfRow = useMemo(() => {
+    const map = new Map<number, ReviewChange>();
+    for (const change of review?.changes ?? []) for (const row of change.rows) map.set(row, change);
+    return map;
+  }, [review?.changes]);
+  // Decision controls go under the last row of each change's first run of rows.
+  const controlsAt = useMemo(() => {
+    const map = new Map<number, ReviewChange>();
+    for (const change of review?.changes ?? []) {
+      const end = change.rows.find(row => !change.rows.includes(row + 1))!;
+      map.set(end, change);
+    }
+    return map;
+  }, [review?.changes]);
+
+  // The rows where a new source page begins, per side.
+  const pageStarts = useMemo(() => {
+    const starts: Record<number, { side: 'left' | 'right'; page: number }[]> = {};
+    for (const side of ['left', 'right'] as const) {
+      const pages = sourcePages?.[side];
+      if (!pages) continue;
+      let last = 0;
+      rows.forEach((row, idx) => {
+        if (!row[side] || pages[idx] === last) return;
+        last = pages[idx];
+        (starts[idx] ??= []).push({ side, page: last });
+      });
+    }
+    return starts;
+  }, [rows, sourcePages]);
+
+  // Bring a newly selected citation into view once the rows are on screen.
+  useEffect(() => {
+    setCitedIndex(0);
+    if (citation?.rows.length) requestAnimationFrame(() => jumpToRow(citation.rows[0]));
+  }, [citation]);
+
+  const stepCitation = (delta: number) => {
+    if (!citation?.rows.length) return;
+    const next = (citedIndex + delta + citation.rows.length) % citation.rows.length;
+    setCitedIndex(next);
+    jumpToRow(citation.rows[next]);
+  };
+
+  // Changes the filters leave out stay in place for context, faded.
+  const rowClass = (idx: number) => {
+    const filteredOut = filtering && !matching[idx] && changeKinds(rows[idx]).length > 0;
+    return `${filteredOut ? 'opacity-40' : ''} ${flashRow === idx ? 'bg-sky-100/60' : cited.has(idx) ? 'bg-amber-50/70' : ''}`;
+  };
+
+  const navigation = (
+    <>
+      <NavigatorBar
+        stop={stop}
+        stops={stops.length}
+        onStep={stepChange}
+        filter={filter}
+        onFilterChange={setFilter}
+        clauses={clauses}
+        query={query}
+        onQueryChange={setQuery}
+        hit={hit}
+        hitRows={search.rows.length}
+        matches={search.matches}
+        onStepHit={stepHit}
+      />
+      {citation && (
+        <div className="flex items-center gap-4 px-10 py-2 bg-amber-50 border-b border-amber-200 text-[10px] font-black uppercase tracking-widest text-amber-700 print:hidden">
+          <span className="truncate">Cited by analysis · {citation.label}</span>
+          <span className="ml-auto shrink-0">{citation.rows.length ? `${citedIndex + 1} of ${citation.rows.length}` : 'No rows cited'}</span>
+          <button onClick={() => stepCitation(-1)} className="px-2 py-1 rounded-lg hover:bg-amber-100" title="Previous cited row">↑</button>
+          <button onClick={() => stepCitation(1)} className="px-2 py-1 rounded-lg hover:bg-amber-100" title="Next cited row">↓</button>
+          <button onClick={onClearCitation} className="px-3 py-1 rounded-lg border border-amber-200 hover:bg-amber-100">Clear</button>
         </div>
+      )}
+    </>
+  );
+
+  if (viewMode === 'unified') {
+    return (
+      <div className="flex h-full bg-white">
+        <UnifiedView
+          rows={rows}
+          smartExplanations={smartExplanations}
+          navigation={navigation}
+          query={query}
+          rowFlags={rowFlags}
+          rowClass={rowClass}
+        />
+        <Minimap buckets={buckets} current={currentRow} onJump={navigateTo} />
       </div>
-      
-      <div className="divide-y divide-slate-100">
-        {rows.map((row, idx) => (
-          <div key={idx} className="flex divide-x divide-slate-100 min-h-[4rem] hover:bg-slate-50/10 transition-colors">
-            <DiffCell part={row.left} index={idx} isLeft={true} />
-            <DiffCell part={row.right} index={idx} explanation={smartExplanations[idx]} isLeft={false} />
+    );
+  }
+
+  return (
+    <div className="flex h-full bg-white">
+      <div className="flex-1 min-w-0 flex flex-col h-full overflow-y-auto custom-scrollbar">
+        <div className="sticky top-0 z-40 shadow-sm">
+          <div className="flex bg-white/95 backdrop-blur-md border-b border-slate-200 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+            <div className="w-10 shrink-0 print:hidden"></div>
+            <div className="flex-1 p-4 px-10 border-r border-slate-100 flex items-center gap-3">
+              <div className="w-2 h-2 rounded-full bg-slate-200"></div> Original Text
+            </div>
+            <div className="flex-1 p-4 px-10 flex items-center gap-3">
+              <div className="w-2 h-2 rounded-full bg-indigo-500"></div> Revised Version
+            </div>
+            <div className="w-10 shrink-0 print:hidden"></div>
           </div>
-        ))}
+          {navigation}
+        </div>
+
+        <div className="divide-y divide-slate-100">
+          {rows.map((row, idx) => {
+            const rowThreads = threads[idx] ?? [];
+            const toggle = () => setOpenRow(openRow === idx ? null : idx);
+            const clause = clauseLabel(row.clausePath);
+            const clauseChanged = clause && clause !== clauseLabel(rows[idx - 1]?.clausePath);
+            const moveTarget = row.move ? clauseLabel(rows[row.move.counterpart]?.clausePath?.slice(-1)) : undefined;
+            const change = changeOfRow.get(idx);
+            const decision = change && review?.decisions[change.id];
+            const controls = controlsAt.get(idx);
+            return (
+              <div key={idx} id={`diff-row-${idx}`} className={`transition-colors duration-700 ${rowClass(idx)} ${review ? `border-l-4 ${decision ? DECISION_STYLES[decision.state].border : 'border-l-transparent'}` : ''}`}>
+                {clauseChanged && (
+                  <div className="px-20 pt-6 pb-1 text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400 bg-slate-50/40">
+                    {clause}
+                  </div>
+                )}
+                {pageStarts[idx] && (
+                  <div className="flex gap-2 px-20 pt-3 print:hidden">
+                    {pageStarts[idx].map(start => (
+                      <button
+                        key={start.side}
+                        onClick={() => onShowPage?.(start.side, start.page)}
+                        className="px-3 py-1 rounded-full border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                        title="Show the photographed page"
+                      >
+                        {start.side === 'left' ? 'Original' : 'Revised'} · page {start.page} ↗
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="group/row flex divide-x divide-slate-100 min-h-[4rem] hover:bg-slate-50/10 transition-colors">
+                  <CommentGutter threads={rowThreads} active={openRow === idx} onToggle={toggle} />
+                  <DiffCell part={row.left} index={idx} isLeft={true} move={row.move} moveTarget={moveTarget} onJump={jumpToRow} ignored={row.ignored} query={query} />
+                  <DiffCell part={row.right} index={idx} explanation={smartExplanations[idx]} isLeft={false} move={row.move} moveTarget={moveTarget} onJump={jumpToRow} numericChange={row.numericChange} ignored={row.ignored} query={query} />
+                  <CommentGutter threads={rowThreads} active={openRow === idx} onToggle={toggle} />
+                </div>
+                {rowFlags?.[idx] && (
+                  <div className="flex flex-wrap gap-2 px-20 pb-4 print:hidden">
+                    {rowFlags[idx].map(flag => (
+                      <span key={flag.label} className={`px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest ${FLAG_STYLES[flag.kind]}`}>
+                        {flag.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {review && controls && (
+                  <DecisionControls
+                    change={controls}
+                    decision={review.decisions[controls.id]}
+                    onDecide={(next) => review.onDecide(controls.id, next)}
+                  />
+                )}
+                {openRow === idx && (
+                  <CommentThreadPanel
+                    threads={rowThreads}
+                    currentAuthor={currentAuthor}
+                    onAuthorChange={onAuthorChange}
+                    onAddComment={(text, parentId) => onAddComment(idx, text, parentId)}
+                    onResolveThread={onResolveThread}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
       </div>
+      <Minimap buckets={buckets} current={currentRow} onJump={navigateTo} />
     </div>
   );
 };
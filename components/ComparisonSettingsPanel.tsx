@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ComparisonSettings } from '../types';
+import { invalidPatterns } from '../utils/normalize';
+
+interface ComparisonSettingsPanelProps {
+  settings: ComparisonSettings;
+  onChange: (settings: ComparisonSettings) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: { key: Exclude<keyof ComparisonSettings, 'ignorePatterns'>; label: string; hint: string }[] = [
+  { key: 'ignoreWhitespace', label: 'Whitespace & line breaks', hint: 'Double spaces, tabs and re-wrapped lines' },
+  { key: 'ignoreCase', label: 'Letter case', hint: '"Client" and "CLIENT" compare equal' },
+  { key: 'normalizePunctuation', label: 'Punctuation style', hint: 'Smart quotes, en/em dashes, non-breaking spaces' },
+  { key: 'ignoreNumbering', label: 'Auto-numbering', hint: 'List numbers such as "3.", "2.1" or "(b)" at line start' },
+  { key: 'ignoreHeadersFooters', label: 'Headers, footers & page numbers', hint: 'Lines repeated on every page and "Page 3 of 12"' },
+];
+
+export const ComparisonSettingsPanel: React.FC<ComparisonSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [patternText, setPatternText] = useState(settings.ignorePatterns.join('\n'));
+  const patterns = patternText.split('\n').filter(p => p.trim());
+  const invalid = invalidPatterns(patterns);
+
+  return (
+    <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 z-50 w-[28rem] max-w-[90vw] bg-white rounded-3xl border border-slate-200 shadow-2xl p-6 space-y-5 text-left">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">Applied before diffing</span>
+          <h3 className="text-sm font-bold text-slate-800">Ignore differences in</h3>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {OPTIONS.map(option => (
+          <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[option.key]}
+              onChange={(e) => onChange({ ...settings, [option.key]: e.target.checked })}
+              className="mt-1 accent-indigo-600"
+            />
+            <span>
+              <span className="block text-sm font-bold text-slate-700">{option.label}</span>
+              <span className="block text-xs text-slate-400">{option.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <span className="block text-sm font-bold text-slate-700">Custom ignore patterns</span>
+        <span className="block text-xs text-slate-400 mb-2">One regular expression per line, e.g. <code className="font-mono">DRAFT \d+</code></span>
+        <textarea
+          value={patternText}
+          onChange={(e) => {
+            setPatternText(e.target.value);
+            onChange({ ...settings, ignorePatterns: e.target.value.split('\n').filter(p => p.trim()) });
+          }}
+          rows={3}
+          spellCheck={false}
+          className={`w-full p-3 text-xs font-mono rounded-xl border resize-none focus:outline-none focus:ring-2 ${invalid.length ? 'border-rose-300 focus:ring-rose-200' : 'border-slate-200 focus:ring-indigo-200'}`}
+        />
+        {invalid.length > 0 && (
+          <p className="text-xs font-bold text-rose-600 mt-1">Skipped invalid pattern{invalid.length === 1 ? '' : 's'}: {invalid.join(', ')}</p>
+        )}
+      </div>
+
+      <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Original text is always shown · re-run Compare to apply</p>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { CrossReferenceIssue } from '../utils/crossReferences';
+
+interface CrossReferencesViewProps {
+  issues: CrossReferenceIssue[];
+  compared: boolean;
+  onSelectIssue: (issue: CrossReferenceIssue) => void;
+}
+
+const KIND_LABELS: Record<CrossReferenceIssue['kind'], string> = {
+  dangling: 'Dangling',
+  retargeted: 'Points elsewhere',
+};
+
+/**
+ * Internal cross-references of the revised document that no longer resolve, or that
+ * now land on a different clause because the sections around them were renumbered.
+ */
+export const CrossReferencesView: React.FC<CrossReferencesViewProps> = ({ issues, compared, onSelectIssue }) => (
+  <section className="space-y-6">
+    <div className="px-2">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Cross-references</h3>
+    </div>
+
+    {!compared ? (
+      <p className="px-2 text-sm text-slate-400">Compare two documents to check their internal references.</p>
+    ) : issues.length === 0 ? (
+      <div className="bg-emerald-50 border border-emerald-200 text-emerald-800 p-6 rounded-[2rem] text-sm font-medium">
+        Every internal reference in the revised document resolves to the intended clause.
+      </div>
+    ) : (
+      <div className="space-y-3">
+        {issues.map((issue, idx) => (
+          <button
+            key={idx}
+            onClick={() => onSelectIssue(issue)}
+            className="w-full text-left bg-white p-6 rounded-[2rem] border hover:shadow-md hover:border-indigo-200 transition-all"
+          >
+            <div className="flex items-center gap-3 mb-2">
+              <h4 className="font-bold text-slate-900 mr-auto">
+                {issue.reference}
+                {issue.clause && <span className="font-medium text-slate-400"> in {issue.clause}</span>}
+              </h4>
+              <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border border-amber-200 text-amber-700 bg-amber-50 whitespace-nowrap">
+                {KIND_LABELS[issue.kind]}
+              </span>
+            </div>
+            <p className="text-sm text-slate-600 leading-relaxed">{issue.message}</p>
+            {issue.suggestion && (
+              <p className="mt-2 text-sm font-medium text-slate-700">Should now read “{issue.suggestion}”.</p>
+            )}
+            <p className="mt-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {issue.introduced ? 'Introduced by this revision' : 'Already in the original'}
+              <span className="text-indigo-500"> · View in redline →</span>
+            </p>
+          </button>
+        ))}
+      </div>
+    )}
+  </section>
+);
@@ -0,0 +1,64 @@
+import React from 'react';
+import { DefinedTerm, DefinedTermStatus } from '../utils/definedTerms';
+
+interface DefinedTermsTableProps {
+  terms: DefinedTerm[];
+  onSelect: (term: DefinedTerm) => void;
+}
+
+const STATUS_STYLES: Record<DefinedTermStatus, { label: string; className: string }> = {
+  changed: { label: 'Definition changed', className: 'bg-violet-100 text-violet-700' },
+  undefined: { label: 'Used but undefined', className: 'bg-rose-100 text-rose-700' },
+  added: { label: '+ Added', className: 'bg-emerald-100 text-emerald-700' },
+  removed: { label: '− Removed', className: 'bg-slate-100 text-slate-500' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-100 text-slate-400' },
+};
+
+const Definition: React.FC<{ text?: string }> = ({ text }) => (
+  <td className="p-4 px-6 align-top text-xs leading-relaxed text-slate-600 max-w-md">
+    {text ?? <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">Not defined</span>}
+  </td>
+);
+
+/**
+ * Defined terms of both versions. A changed definition lists how many otherwise
+ * unchanged rows use the term, since their meaning changed with it.
+ */
+export const DefinedTermsTable: React.FC<DefinedTermsTableProps> = ({ terms, onSelect }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-left text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 border-b border-slate-100">
+        <th className="p-4 px-6 font-black">Term</th>
+        <th className="p-4 px-6 font-black">Version A</th>
+        <th className="p-4 px-6 font-black">Version B</th>
+        <th className="p-4 px-6 font-black">Status</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-slate-100">
+      {terms.map(term => (
+        <tr key={term.term} className="hover:bg-slate-50/50">
+          <td className="p-4 px-6 align-top">
+            <button onClick={() => onSelect(term)} className="font-bold text-slate-800 text-left hover:text-indigo-600 hover:underline" title="Show in comparison">
+              {term.term}
+            </button>
+            <span className="block mt-1 text-[10px] font-bold text-slate-400">
+              {term.usages} {term.usages === 1 ? 'use' : 'uses'} in Version B
+            </span>
+          </td>
+          <Definition text={term.before} />
+          <Definition text={term.after} />
+          <td className="p-4 px-6 align-top">
+            <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${STATUS_STYLES[term.status].className}`}>
+              {STATUS_STYLES[term.status].label}
+            </span>
+            {term.affectedRows.length > 0 && (
+              <span className="block mt-2 text-[10px] font-bold text-violet-600">
+                {term.affectedRows.length} unchanged {term.affectedRows.length === 1 ? 'row' : 'rows'} indirectly affected
+              </span>
+            )}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
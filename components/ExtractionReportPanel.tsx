@@ -0,0 +1,93 @@
+import React from 'react';
+import { ExtractionMethod, ExtractionReport, LOW_CONFIDENCE } from '../services/localExtraction';
+
+interface ExtractionReportPanelProps {
+  report: ExtractionReport;
+  providerLabel: string;
+  readingPages: number[]; // pages currently being re-read with AI
+  onReadWithAI: (pages: number[]) => void;
+  onClose: () => void;
+}
+
+const METHOD_LABELS: Record<ExtractionMethod, string> = {
+  text: 'Text layer',
+  ocr: 'OCR',
+  ai: 'AI',
+};
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 90 ? 'bg-emerald-500' : confidence >= LOW_CONFIDENCE ? 'bg-amber-400' : 'bg-rose-500';
+
+/**
+ * How each page of an imported PDF or image was read, and how reliably. Nothing is
+ * sent to the AI provider unless the user asks for a page to be re-read.
+ */
+export const ExtractionReportPanel: React.FC<ExtractionReportPanelProps> = ({ report, providerLabel, readingPages, onReadWithAI, onClose }) => {
+  const lowPages = report.pages.filter(p => p.confidence !== null && p.confidence < LOW_CONFIDENCE).map(p => p.page);
+  const sentToAI = report.pages.some(p => p.method === 'ai');
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-3xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="p-8 pb-6 space-y-2 border-b border-slate-100">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">{report.fileName}</span>
+          <h3 className="text-lg font-bold text-slate-900">
+            {lowPages.length ? `${lowPages.length} of ${report.pages.length} pages read with low confidence` : `${report.pages.length} ${report.pages.length === 1 ? 'page' : 'pages'} read on this device`}
+          </h3>
+          <p className="text-sm text-slate-500">
+            {sentToAI
+              ? `Pages marked AI were sent to ${providerLabel}; all others were read on this device.`
+              : 'Nothing has left this device.'}
+            {lowPages.length > 0 && ' Re-scan low-confidence pages at a higher resolution, or have them read by AI.'}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+          {report.pages.map(page => {
+            const low = page.confidence !== null && page.confidence < LOW_CONFIDENCE;
+            const reading = readingPages.includes(page.page);
+            return (
+              <div key={page.page} className="flex items-center gap-4 px-8 py-3">
+                <span className="w-16 text-xs font-bold text-slate-700">Page {page.page}</span>
+                <span className="w-20 text-[10px] font-black uppercase tracking-widest text-slate-400">{METHOD_LABELS[page.method]}</span>
+                <div className="flex-1">
+                  {page.confidence !== null ? (
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                        <div className={`h-full ${confidenceColor(page.confidence)}`} style={{ width: `${page.confidence}%` }} />
+                      </div>
+                      <span className={`w-10 text-right text-xs font-bold ${low ? 'text-rose-600' : 'text-slate-500'}`}>{page.confidence}%</span>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-slate-400">Read by {providerLabel}</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => onReadWithAI([page.page])}
+                  disabled={reading || page.method === 'ai'}
+                  className="w-28 text-right text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700 disabled:text-slate-300"
+                >
+                  {reading ? 'Reading…' : 'Read with AI'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 px-8 flex flex-wrap items-center gap-3 border-t border-slate-100">
+          {lowPages.length > 0 && (
+            <button
+              onClick={() => onReadWithAI(lowPages)}
+              disabled={readingPages.length > 0}
+              className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-50 transition-all"
+            >
+              Read {lowPages.length} low-confidence {lowPages.length === 1 ? 'page' : 'pages'} with AI
+            </button>
+          )}
+          <span className="text-[10px] font-bold text-slate-400">Sends the page images to {providerLabel}.</span>
+          <button onClick={onClose} className="ml-auto px-4 py-2 rounded-xl bg-slate-100 text-slate-500 text-xs font-bold">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
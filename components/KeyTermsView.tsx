@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { KEY_TERM_LABELS, KeyTerm, KeyTermDirection, KeyTermValue } from '../utils/keyTerms';
+import { DefinedTerm } from '../utils/definedTerms';
+import { DefinedTermsTable } from './DefinedTermsTable';
+
+interface KeyTermsViewProps {
+  terms: KeyTerm[];
+  definedTerms: DefinedTerm[];
+  onSelect: (term: KeyTerm, side: 'a' | 'b') => void;
+  onSelectDefinedTerm: (term: DefinedTerm) => void;
+}
+
+const DIRECTION_STYLES: Record<KeyTermDirection, { label: string; className: string }> = {
+  increased: { label: '↑ Increased', className: 'bg-indigo-100 text-indigo-700' },
+  decreased: { label: '↓ Decreased', className: 'bg-amber-100 text-amber-800' },
+  changed: { label: '≠ Changed', className: 'bg-sky-100 text-sky-700' },
+  added: { label: '+ Added', className: 'bg-emerald-100 text-emerald-700' },
+  removed: { label: '− Removed', className: 'bg-rose-100 text-rose-700' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-100 text-slate-400' },
+};
+
+const ValueCell: React.FC<{ value?: KeyTermValue; onClick: () => void }> = ({ value, onClick }) => (
+  <td className="p-4 px-6">
+    {value ? (
+      <button onClick={onClick} className="font-mono text-[13px] text-slate-800 text-left hover:text-indigo-600 hover:underline" title="Show in comparison">
+        {value.text}
+      </button>
+    ) : (
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">Not present</span>
+    )}
+  </td>
+);
+
+/**
+ * The commercial terms of both versions side by side, as extracted by keyTerms.ts,
+ * and the defined terms from definedTerms.ts. Every value links to the row of the
+ * comparison that shows it.
+ */
+export const KeyTermsView: React.FC<KeyTermsViewProps> = ({ terms, definedTerms, onSelect, onSelectDefinedTerm }) => {
+  const [tab, setTab] = useState<'commercial' | 'defined'>('commercial');
+  const [changesOnly, setChangesOnly] = useState(true);
+  const changed = terms.filter(term => term.direction !== 'unchanged');
+  const shown = changesOnly ? changed : terms;
+  const changedDefinitions = definedTerms.filter(term => term.status !== 'unchanged');
+  const shownDefinitions = changesOnly ? changedDefinitions : definedTerms;
+  const tabClass = (active: boolean) => `px-3 py-1.5 rounded-lg transition-all ${active ? 'bg-white text-indigo-600 shadow-sm' : 'hover:text-slate-600'}`;
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-y-auto custom-scrollbar">
+      <div className="sticky top-0 z-40 bg-white/95 backdrop-blur-md border-b border-slate-200 shadow-sm flex items-center justify-between gap-4 p-4 px-10 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <div className="flex bg-slate-100 p-1 rounded-xl">
+          <button onClick={() => setTab('commercial')} className={tabClass(tab === 'commercial')}>
+            Commercial terms · {changed.length}/{terms.length} changed
+          </button>
+          <button onClick={() => setTab('defined')} className={tabClass(tab === 'defined')}>
+            Defined terms · {changedDefinitions.length}/{definedTerms.length} changed
+          </button>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} className="accent-indigo-600" />
+          Changes only
+        </label>
+      </div>
+
+      {tab === 'defined' ? (
+        shownDefinitions.length === 0 ? (
+          <p className="p-10 text-sm text-slate-400">{definedTerms.length ? 'No definitions changed.' : 'Neither version defines any terms.'}</p>
+        ) : (
+          <DefinedTermsTable terms={shownDefinitions} onSelect={onSelectDefinedTerm} />
+        )
+      ) : shown.length === 0 ? (
+        <p className="p-10 text-sm text-slate-400">{terms.length ? 'None of the key terms changed.' : 'No amounts, dates, durations, parties or jurisdictions were found.'}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 border-b border-slate-100">
+              <th className="p-4 px-6 font-black">Term</th>
+              <th className="p-4 px-6 font-black">Clause</th>
+              <th className="p-4 px-6 font-black">Version A</th>
+              <th className="p-4 px-6 font-black">Version B</th>
+              <th className="p-4 px-6 font-black">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {shown.map((term, idx) => (
+              <tr key={idx} className="hover:bg-slate-50/50">
+                <td className="p-4 px-6 font-bold text-slate-700">{KEY_TERM_LABELS[term.category]}</td>
+                <td className="p-4 px-6 text-xs text-slate-500">{term.clause || '—'}</td>
+                <ValueCell value={term.a} onClick={() => onSelect(term, 'a')} />
+                <ValueCell value={term.b} onClick={() => onSelect(term, 'b')} />
+                <td className="p-4 px-6">
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${DIRECTION_STYLES[term.direction].className}`}>
+                    {DIRECTION_STYLES[term.direction].label}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Matter } from '../types';
+
+interface MatterSidebarProps {
+  matters: Matter[];
+  activeId: string | null;
+  caseNotes: string;
+  onCaseNotesChange: (notes: string) => void;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const MatterSidebar: React.FC<MatterSidebarProps> = ({
+  matters, activeId, caseNotes, onCaseNotesChange, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex print:hidden">
+      <aside className="w-full max-w-sm bg-white border-r border-slate-200 shadow-2xl flex flex-col animate-in slide-in-from-left">
+        <div className="px-6 h-16 md:h-20 flex items-center justify-between border-b border-slate-200">
+          <div>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">Workspace</span>
+            <h2 className="text-sm font-bold text-slate-800">Matters</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onCreate} className="px-3 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition-all">New</button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 rounded-lg" title="Close">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+            </button>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+          {matters.map(matter => (
+            <li key={matter.id} className={`group px-6 py-4 ${matter.id === activeId ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}>
+              {editingId === matter.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 text-sm font-bold rounded-lg border border-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                />
+              ) : (
+                <button onClick={() => onOpen(matter.id)} className="w-full text-left">
+                  <span className={`block text-sm font-bold truncate ${matter.id === activeId ? 'text-indigo-700' : 'text-slate-800'}`}>{matter.name}</span>
+                  <span className="block text-[10px] text-slate-400 mt-0.5">
+                    Updated {formatDate(matter.updatedAt)} · {matter.history.length} comparison{matter.history.length === 1 ? '' : 's'}
+                  </span>
+                </button>
+              )}
+              <div className="flex gap-4 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                {[
+                  { label: 'Rename', action: () => { setEditingId(matter.id); setDraftName(matter.name); } },
+                  { label: 'Duplicate', action: () => onDuplicate(matter.id) },
+                  { label: 'Delete', action: () => onDelete(matter.id) },
+                ].map(({ label, action }) => (
+                  <button
+                    key={label}
+                    onClick={action}
+                    className={`text-[10px] font-black uppercase tracking-widest transition-colors ${label === 'Delete' ? 'text-slate-400 hover:text-rose-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {activeId && (
+          <div className="border-t border-slate-200 p-6 bg-slate-50">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Case Notes</h3>
+            <textarea
+              value={caseNotes}
+              onChange={(e) => onCaseNotesChange(e.target.value)}
+              placeholder="Negotiation strategy, client instructions, open points..."
+              rows={6}
+              className="w-full p-3 text-sm rounded-xl border border-slate-200 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-200 bg-white"
+            />
+          </div>
+        )}
+      </aside>
+      <div className="flex-1 bg-slate-900/30 backdrop-blur-sm" onClick={onClose}></div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { DEFAULT_PLAYBOOK_SOURCE, Playbook, PlaybookViolation, parsePlaybook } from '../utils/playbook';
+
+interface PlaybookViewProps {
+  playbook: Playbook | null;
+  source: string;
+  violations: PlaybookViolation[];
+  compared: boolean;
+  onSave: (source: string) => void;
+  onSelectViolation: (violation: PlaybookViolation) => void;
+}
+
+const SEVERITY_STYLES = {
+  high: 'border-rose-200 text-rose-600 bg-rose-50',
+  medium: 'border-amber-200 text-amber-700 bg-amber-50',
+  low: 'border-slate-200 text-slate-500 bg-slate-50',
+};
+
+/**
+ * The firm's playbook checked against the revised document: deterministic rule
+ * violations next to the AI report, each linked to its rows in the comparison.
+ */
+export const PlaybookView: React.FC<PlaybookViewProps> = ({ playbook, source, violations, compared, onSave, onSelectViolation }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(source);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(source);
+    setDraftError(null);
+    setEditing(true);
+  };
+
+  const save = () => {
+    try {
+      parsePlaybook(draft);
+    } catch (e) {
+      setDraftError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    onSave(draft);
+    setEditing(false);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setDraft(await file.text());
+  };
+
+  const brokenRules = new Set(violations.map(v => v.ruleId)).size;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <div>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Playbook</h3>
+          <p className="text-sm font-bold text-slate-700 mt-1">{playbook?.name ?? 'Invalid playbook'}</p>
+        </div>
+        {!editing && (
+          <button onClick={startEditing} className="px-4 py-2 rounded-xl border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all">
+            Edit rules
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="bg-white p-6 rounded-[2rem] border space-y-4">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-80 p-4 font-mono text-xs leading-relaxed rounded-2xl border border-slate-200 bg-slate-50 focus:outline-none focus:ring-2 focus:ring-indigo-200 resize-y"
+          />
+          {draftError && <p className="text-xs font-medium text-rose-600">{draftError}</p>}
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={save} className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all">Save</button>
+            <button onClick={() => setEditing(false)} className="px-4 py-2 rounded-xl border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-700">Cancel</button>
+            <label className="px-4 py-2 rounded-xl border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 cursor-pointer">
+              Load file
+              <input type="file" accept=".yaml,.yml,.json" onChange={handleFile} className="hidden" />
+            </label>
+            <button onClick={() => setDraft(DEFAULT_PLAYBOOK_SOURCE)} className="ml-auto text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">Restore default</button>
+          </div>
+        </div>
+      ) : !playbook ? (
+        <p className="px-2 text-sm text-rose-600">The saved playbook could not be read. Edit the rules to fix it.</p>
+      ) : !compared ? (
+        <p className="px-2 text-sm text-slate-400">Compare two documents to check them against {playbook.rules.length} rules.</p>
+      ) : violations.length === 0 ? (
+        <div className="bg-emerald-50 border border-emerald-200 text-emerald-800 p-6 rounded-[2rem] text-sm font-medium">
+          The revised document meets all {playbook.rules.length} rules.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="px-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {brokenRules} of {playbook.rules.length} rules broken
+          </p>
+          {violations.map((violation, idx) => (
+            <button
+              key={idx}
+              onClick={() => onSelectViolation(violation)}
+              disabled={violation.rows.length === 0}
+              className="w-full text-left bg-white p-6 rounded-[2rem] border hover:shadow-md hover:border-indigo-200 disabled:hover:shadow-none disabled:hover:border-slate-200 transition-all"
+            >
+              <div className="flex items-center gap-3 mb-2">
+                <h4 className="font-bold text-slate-900 mr-auto">{violation.title}</h4>
+                <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${SEVERITY_STYLES[violation.severity]}`}>
+                  {violation.severity}
+                </span>
+              </div>
+              <p className="text-sm text-slate-600 leading-relaxed">{violation.message}</p>
+              <p className="mt-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                {violation.introduced ? 'Introduced by this revision' : 'Already in the original'}
+                {violation.rows.length > 0 && <span className="text-indigo-500"> · View in redline →</span>}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { LLMProviderId, LLMSettings } from '../types';
+import { PROVIDER_LABELS } from '../services/llmProvider';
+
+interface ProviderSettingsPanelProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+  apiKey: string; // for the selected provider, held for the session only
+  onApiKeyChange: (apiKey: string) => void;
+  onClose: () => void;
+}
+
+const HINTS: Record<LLMProviderId, string> = {
+  gemini: 'Documents are sent to Google for analysis. Scans are read on this device unless you ask for AI.',
+  openai: 'Self-hosted or private model (vLLM, llama.cpp, Ollama, LM Studio). Nothing leaves your network.',
+  mock: 'Deterministic placeholder answers for demos and testing. Nothing is sent anywhere.',
+};
+
+const PLACEHOLDERS: Record<LLMProviderId, { model: string; fastModel: string }> = {
+  gemini: { model: 'gemini-3-pro-preview', fastModel: 'gemini-3-flash-preview' },
+  openai: { model: 'e.g. llama-3.1-70b-instruct', fastModel: 'Same as analysis model' },
+  mock: { model: '', fastModel: '' },
+};
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, apiKey, onApiKeyChange, onClose }) => {
+  const update = (patch: Partial<LLMSettings>) => onChange({ ...settings, ...patch });
+  // Model names belong to one provider, so they are not carried over to another.
+  const selectProvider = (provider: LLMProviderId) => update({ provider, model: undefined, fastModel: undefined });
+  const field = 'w-full px-3 py-2 text-xs rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200';
+
+  return (
+    <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 z-50 w-[28rem] max-w-[90vw] bg-white rounded-3xl border border-slate-200 shadow-2xl p-6 space-y-5 text-left">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">Saved with this matter</span>
+          <h3 className="text-sm font-bold text-slate-800">AI provider</h3>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(PROVIDER_LABELS) as LLMProviderId[]).map(provider => (
+          <label key={provider} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="radio"
+              name="llm-provider"
+              checked={settings.provider === provider}
+              onChange={() => selectProvider(provider)}
+              className="mt-1 accent-indigo-600"
+            />
+            <span>
+              <span className="block text-sm font-bold text-slate-700">{PROVIDER_LABELS[provider]}</span>
+              <span className="block text-xs text-slate-400">{HINTS[provider]}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {settings.provider !== 'mock' && (
+        <div className="space-y-3">
+          {settings.provider === 'openai' && (
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-600 mb-1">Endpoint</span>
+              <input value={settings.endpoint ?? ''} onChange={(e) => update({ endpoint: e.target.value })} placeholder="http://localhost:8000/v1" className={field} />
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-600 mb-1">Analysis model</span>
+              <input value={settings.model ?? ''} onChange={(e) => update({ model: e.target.value })} placeholder={PLACEHOLDERS[settings.provider].model} className={field} />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-600 mb-1">Extraction model</span>
+              <input value={settings.fastModel ?? ''} onChange={(e) => update({ fastModel: e.target.value })} placeholder={PLACEHOLDERS[settings.provider].fastModel} className={field} />
+            </label>
+          </div>
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-600 mb-1">API key <span className="font-normal text-slate-400">· this session only, not saved</span></span>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => onApiKeyChange(e.target.value)}
+              placeholder={settings.provider === 'gemini' ? 'Default workspace key' : 'Optional'}
+              className={field}
+            />
+          </label>
+        </div>
+      )}
+
+      <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Used for OCR, insights and Deep Legal Analysis</p>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ChangeDecision } from '../types';
+import { ReviewChange, ReviewProgress } from '../utils/review';
+
+export const DECISION_STYLES: Record<ChangeDecision['state'], { button: string; border: string }> = {
+  accepted: { button: 'bg-emerald-600 text-white border-emerald-600', border: 'border-l-emerald-500' },
+  rejected: { button: 'bg-rose-600 text-white border-rose-600', border: 'border-l-rose-500' },
+  countered: { button: 'bg-indigo-600 text-white border-indigo-600', border: 'border-l-indigo-500' },
+};
+
+interface DecisionControlsProps {
+  change: ReviewChange;
+  decision?: ChangeDecision;
+  onDecide: (decision: ChangeDecision | null) => void;
+}
+
+/** Accept, reject or counter one change; shown where the change's first run of rows ends. */
+export const DecisionControls: React.FC<DecisionControlsProps> = ({ change, decision, onDecide }) => {
+  const [drafting, setDrafting] = useState(false);
+  const [draft, setDraft] = useState('');
+  const button = (state: ChangeDecision['state']) =>
+    `px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest transition-colors ${
+      decision?.state === state ? DECISION_STYLES[state].button : 'border-slate-200 text-slate-400 hover:text-slate-700 hover:border-slate-300'
+    }`;
+  const toggle = (state: 'accepted' | 'rejected') => onDecide(decision?.state === state ? null : { state });
+
+  const startCounter = () => {
+    setDraft(decision?.state === 'countered' ? decision.text ?? '' : change.after);
+    setDrafting(true);
+  };
+
+  const saveCounter = () => {
+    onDecide({ state: 'countered', text: draft });
+    setDrafting(false);
+  };
+
+  return (
+    <div className="px-20 pb-4 space-y-3 print:hidden">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => toggle('accepted')} className={button('accepted')}>Accept</button>
+        <button onClick={() => toggle('rejected')} className={button('rejected')}>Reject</button>
+        <button onClick={startCounter} className={button('countered')}>Counter…</button>
+        {change.formattingOnly && <span className="text-[10px] font-bold text-slate-400">Formatting only</span>}
+        {decision?.state === 'countered' && !drafting && (
+          <span className="text-xs text-indigo-700 italic truncate max-w-md">“{decision.text}”</span>
+        )}
+      </div>
+      {drafting && (
+        <div className="flex gap-3 items-end">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) saveCounter(); }}
+            rows={2}
+            autoFocus
+            placeholder="Our wording for this change"
+            className="flex-1 p-3 text-xs rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200 resize-y"
+          />
+          <button onClick={saveCounter} className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest">Save</button>
+          <button onClick={() => setDrafting(false)} className="px-4 py-2 rounded-xl border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest">Cancel</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ReviewBarProps {
+  progress: ReviewProgress;
+  formattingPending: number; // undecided formatting-only changes
+  onAcceptFormatting: () => void;
+  onDecideRemaining: (state: 'accepted' | 'rejected') => void;
+  onClear: () => void;
+  onExport: () => void;
+  onUseAsDocumentA: () => void;
+}
+
+/** Review progress, bulk decisions and what to do with the merged document. */
+export const ReviewBar: React.FC<ReviewBarProps> = ({ progress, formattingPending, onAcceptFormatting, onDecideRemaining, onClear, onExport, onUseAsDocumentA }) => {
+  const pending = progress.total - progress.decided;
+  const action = 'px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-40 disabled:hover:text-slate-500 disabled:hover:border-slate-200 transition-all';
+
+  return (
+    <div className="print:hidden flex flex-wrap items-center gap-3 bg-white rounded-2xl border border-slate-200 px-5 py-3">
+      <div className="flex items-center gap-3 mr-auto">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+          Review · {progress.decided} of {progress.total} decided
+        </span>
+        <div className="w-32 h-1.5 rounded-full bg-slate-100 overflow-hidden flex">
+          <div className="h-full bg-emerald-500" style={{ width: `${(progress.accepted / (progress.total || 1)) * 100}%` }} />
+          <div className="h-full bg-rose-500" style={{ width: `${(progress.rejected / (progress.total || 1)) * 100}%` }} />
+          <div className="h-full bg-indigo-500" style={{ width: `${(progress.countered / (progress.total || 1)) * 100}%` }} />
+        </div>
+        {pending > 0 && <span className="text-[10px] font-bold text-slate-400">Undecided changes keep Version B's wording</span>}
+      </div>
+      <button onClick={onAcceptFormatting} disabled={!formattingPending} className={action}>Accept formatting-only ({formattingPending})</button>
+      <button onClick={() => onDecideRemaining('accepted')} disabled={!pending} className={action}>Accept remaining</button>
+      <button onClick={() => onDecideRemaining('rejected')} disabled={!pending} className={action}>Reject remaining</button>
+      <button onClick={onClear} disabled={!progress.decided} className={action}>Clear</button>
+      <button onClick={onExport} className={action}>Export merged</button>
+      <button onClick={onUseAsDocumentA} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all">
+        Use as Document A
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ThreeWayRegion } from '../types';
+
+interface ThreeWayViewProps {
+  regions: ThreeWayRegion[];
+  explanations: Record<number, string>;
+}
+
+const ORIGIN_STYLES = {
+  ours: { label: 'Our change', stripe: 'bg-indigo-500', badge: 'bg-indigo-100 text-indigo-700', cell: 'bg-indigo-50/40 text-indigo-900' },
+  theirs: { label: 'Counterparty change', stripe: 'bg-amber-500', badge: 'bg-amber-100 text-amber-800', cell: 'bg-amber-50/50 text-amber-900' },
+  conflict: { label: 'Conflict', stripe: 'bg-rose-500', badge: 'bg-rose-100 text-rose-700', cell: 'bg-rose-50/40 text-rose-900' },
+  agreed: { label: 'Same change', stripe: 'bg-emerald-500', badge: 'bg-emerald-100 text-emerald-700', cell: 'bg-emerald-50/40 text-emerald-900' },
+};
+
+type Category = keyof typeof ORIGIN_STYLES;
+
+const categoryOf = (region: ThreeWayRegion): Category | null =>
+  region.origin === 'unchanged' ? null
+  : region.origin === 'both' ? (region.identical ? 'agreed' : 'conflict')
+  : region.origin;
+
+const clauseLabel = (path?: string[]) => (path ?? []).slice(-2).join(' › ');
+
+const Cell: React.FC<{ text: string; changed: boolean; className: string }> = ({ text, changed, className }) => (
+  <div className={`flex-1 p-6 min-h-[4rem] ${changed ? className : 'text-slate-400'}`}>
+    {text.trim() ? (
+      <span className="font-mono text-[14px] leading-[1.7] break-words block whitespace-pre-wrap">{text}</span>
+    ) : (
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">{changed ? 'Deleted' : 'Not present'}</span>
+    )}
+  </div>
+);
+
+/**
+ * Three-way view: the common ancestor next to both drafts, with every region
+ * colour-coded by who changed it. Unchanged text spans all three columns.
+ */
+export const ThreeWayView: React.FC<ThreeWayViewProps> = ({ regions, explanations }) => {
+  const [changesOnly, setChangesOnly] = useState(false);
+  const counts = regions.reduce<Record<Category, number>>((acc, region) => {
+    const category = categoryOf(region);
+    if (category) acc[category]++;
+    return acc;
+  }, { ours: 0, theirs: 0, conflict: 0, agreed: 0 });
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-y-auto custom-scrollbar">
+      <div className="sticky top-0 z-40 bg-white/95 backdrop-blur-md border-b border-slate-200 shadow-sm">
+        <div className="flex items-center justify-between gap-4 p-4 px-10 text-[10px] font-bold text-slate-500">
+          <div className="flex flex-wrap items-center gap-3">
+            {(Object.keys(ORIGIN_STYLES) as Category[]).map(category => (
+              <span key={category} className={`px-3 py-1 rounded-full ${ORIGIN_STYLES[category].badge}`}>
+                {ORIGIN_STYLES[category].label} · {counts[category]}
+              </span>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 font-black uppercase tracking-widest text-slate-400 cursor-pointer shrink-0">
+            <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} className="accent-indigo-600" />
+            Changes only
+          </label>
+        </div>
+        <div className="flex text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] border-t border-slate-100">
+          <div className="w-1.5 shrink-0"></div>
+          <div className="flex-1 p-4 px-6 border-r border-slate-100 flex items-center gap-3">
+            <div className="w-2 h-2 rounded-full bg-slate-200"></div> Base (last sent)
+          </div>
+          <div className="flex-1 p-4 px-6 border-r border-slate-100 flex items-center gap-3">
+            <div className="w-2 h-2 rounded-full bg-indigo-500"></div> Our Draft
+          </div>
+          <div className="flex-1 p-4 px-6 flex items-center gap-3">
+            <div className="w-2 h-2 rounded-full bg-amber-500"></div> Counterparty Draft
+          </div>
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {regions.map((region, idx) => {
+          const category = categoryOf(region);
+          const clause = clauseLabel(region.clausePath);
+          if (!category) {
+            if (changesOnly || !region.ours.trim()) return null;
+            return (
+              <div key={idx} className="flex">
+                <div className="w-1.5 shrink-0"></div>
+                <div className="flex-1 p-6 font-mono text-[14px] leading-[1.7] break-words whitespace-pre-wrap text-slate-600">{region.ours}</div>
+              </div>
+            );
+          }
+
+          const style = ORIGIN_STYLES[category];
+          const explanation = explanations[idx];
+          return (
+            <div key={idx} className="flex">
+              <div className={`w-1.5 shrink-0 ${style.stripe}`}></div>
+              <div className="flex-1">
+                <div className="flex items-center gap-3 px-6 pt-4">
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${style.badge}`}>{style.label}</span>
+                  {clause && <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">{clause}</span>}
+                </div>
+                <div className="flex divide-x divide-slate-100">
+                  <Cell text={region.base} changed={false} className="" />
+                  <Cell text={region.ours} changed={region.origin !== 'theirs'} className={style.cell} />
+                  <Cell text={region.theirs} changed={region.origin !== 'ours'} className={style.cell} />
+                </div>
+                {explanation && (
+                  <div className="mx-6 mb-4 bg-slate-900 text-white p-5 rounded-2xl">
+                    <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400 block mb-2">AI Legal Insight</span>
+                    <p className="text-xs font-medium leading-relaxed italic text-slate-200">"{explanation}"</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { ComparisonSettings, DocumentVersion } from '../types';
+import { buildClauseHistory, ClauseEventKind, ClauseHistory } from '../utils/versionHistory';
+
+interface VersionTimelineProps {
+  versions: DocumentVersion[];
+  settings: ComparisonSettings;
+  selected: [string | undefined, string | undefined]; // versions currently loaded as Document A / B
+  analysingRound: number | null;
+  onAdd: (source: '1' | '2', label: string, party: string) => void;
+  onMove: (id: string, delta: -1 | 1) => void;
+  onDelete: (id: string) => void;
+  onLoad: (id: string, slot: '1' | '2') => void;
+  onAnalyseRounds: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const RISK_LEVELS = ['Low', 'Medium', 'High'] as const;
+const RISK_COLORS = { Low: '#4f46e5', Medium: '#f59e0b', High: '#f43f5e' };
+const RISK_BADGES = { Low: 'bg-emerald-50 text-emerald-700', Medium: 'bg-amber-50 text-amber-700', High: 'bg-rose-50 text-rose-700' };
+
+const EVENT_STYLES: Record<ClauseEventKind, { dot: string; label: string }> = {
+  added: { dot: 'bg-emerald-500', label: 'Added' },
+  modified: { dot: 'bg-amber-500', label: 'Modified' },
+  removed: { dot: 'bg-rose-500', label: 'Removed' },
+};
+
+/**
+ * Risk level of each analysed round (the changes made in that version), as a line
+ * chart. Rounds without an analysis are left as gaps.
+ */
+const RiskTrend: React.FC<{ versions: DocumentVersion[] }> = ({ versions }) => {
+  const rounds = versions.length - 1; // the first version has no changes to analyse
+  const x = (index: number) => (rounds === 1 ? 200 : 20 + ((index - 1) * 360) / (rounds - 1));
+  const y = (level: typeof RISK_LEVELS[number]) => 70 - RISK_LEVELS.indexOf(level) * 25;
+  const points = versions
+    .map((version, index) => ({ index, analysis: version.analysis }))
+    .filter(p => p.index > 0 && p.analysis);
+
+  return (
+    <svg viewBox="0 0 400 100" className="w-full h-28">
+      {RISK_LEVELS.map(level => (
+        <g key={level}>
+          <line x1={0} x2={400} y1={y(level)} y2={y(level)} stroke="#f1f5f9" strokeWidth={1} />
+          <text x={0} y={y(level) - 3} fontSize={7} fill="#94a3b8">{level}</text>
+        </g>
+      ))}
+      <polyline
+        fill="none"
+        stroke="#cbd5e1"
+        strokeWidth={2}
+        points={points.map(p => `${x(p.index)},${y(p.analysis!.riskAssessment.level)}`).join(' ')}
+      />
+      {points.map(p => (
+        <g key={p.index}>
+          <circle cx={x(p.index)} cy={y(p.analysis!.riskAssessment.level)} r={4} fill={RISK_COLORS[p.analysis!.riskAssessment.level]}>
+            <title>{`${versions[p.index].label}: ${p.analysis!.riskAssessment.level} risk`}</title>
+          </circle>
+          <text x={x(p.index)} y={95} fontSize={8} textAnchor="middle" fill="#64748b">v{p.index + 1}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const existsIn = (history: ClauseHistory, version: number) => {
+  const first = history.events[0];
+  const addedAt = first?.kind === 'added' ? first.version : 0;
+  const removal = history.events.find(e => e.kind === 'removed');
+  return version >= addedAt && (!removal || version < removal.version);
+};
+
+/**
+ * Negotiation rounds of the active matter: an ordered series of versions, any two
+ * of which can be loaded as Document A / B, with the risk trend across rounds and
+ * the history of every clause.
+ */
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({
+  versions, settings, selected, analysingRound, onAdd, onMove, onDelete, onLoad, onAnalyseRounds, onClose
+}) => {
+  const [tab, setTab] = useState<'rounds' | 'clauses'>('rounds');
+  const [label, setLabel] = useState('');
+  const [party, setParty] = useState('');
+  const clauseHistory = useMemo(
+    () => (tab === 'clauses' ? buildClauseHistory(versions.map(v => v.text), settings) : []),
+    [tab, versions, settings]
+  );
+
+  const add = (source: '1' | '2') => {
+    onAdd(source, label.trim() || `Round ${versions.length + 1}`, party.trim());
+    setLabel('');
+  };
+  const hasAnalysis = versions.some((v, i) => i > 0 && v.analysis);
+
+  return (
+    <div className="print:hidden bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 bg-slate-50 border-b flex items-center justify-between">
+        <div className="flex items-center gap-6">
+          <div>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">Negotiation</span>
+            <h3 className="text-sm font-bold text-slate-800">Version Timeline</h3>
+          </div>
+          <div className="flex bg-slate-100 p-1 rounded-xl border border-slate-200">
+            {([['rounds', 'Rounds'], ['clauses', 'Clause History']] as const).map(([id, name]) => (
+              <button
+                key={id}
+                onClick={() => setTab(id)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${tab === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 rounded-lg" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+        </button>
+      </div>
+
+      {tab === 'rounds' ? (
+        <div className="p-6 space-y-6">
+          {versions.length === 0 ? (
+            <p className="text-sm text-slate-400">No versions yet. Add the drafts exchanged in this negotiation, oldest first.</p>
+          ) : (
+            <ol className="flex gap-4 overflow-x-auto custom-scrollbar pb-2">
+              {versions.map((version, index) => {
+                const level = index > 0 ? version.analysis?.riskAssessment.level : undefined;
+                return (
+                  <li key={version.id} className="group shrink-0 w-56 p-4 rounded-2xl border border-slate-200 space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block">v{index + 1} · {formatDate(version.addedAt)}</span>
+                        <span className="text-sm font-bold text-slate-800 block truncate" title={version.label}>{version.label}</span>
+                        {version.party && <span className="text-xs text-slate-500 block truncate">{version.party}</span>}
+                      </div>
+                      {level && <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold ${RISK_BADGES[level]}`}>{level}</span>}
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex gap-1">
+                        {(['1', '2'] as const).map((slot, s) => (
+                          <button
+                            key={slot}
+                            onClick={() => onLoad(version.id, slot)}
+                            className={`w-7 h-7 rounded-lg text-[10px] font-black transition-all ${selected[s] === version.id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:text-indigo-600'}`}
+                            title={`Compare as Document ${s === 0 ? 'A' : 'B'}`}
+                          >
+                            {s === 0 ? 'A' : 'B'}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => onMove(version.id, -1)} disabled={index === 0} className="px-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Earlier">←</button>
+                        <button onClick={() => onMove(version.id, 1)} disabled={index === versions.length - 1} className="px-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Later">→</button>
+                        <button onClick={() => onDelete(version.id)} className="px-2 text-slate-400 hover:text-rose-600" title="Remove version">×</button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={`Round ${versions.length + 1}`}
+              className="px-3 py-2 text-xs rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <input
+              value={party}
+              onChange={(e) => setParty(e.target.value)}
+              placeholder="Introduced by (e.g. Counterparty)"
+              className="px-3 py-2 text-xs rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <button onClick={() => add('1')} className="px-4 py-2 rounded-xl border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all">Add Document A</button>
+            <button onClick={() => add('2')} className="px-4 py-2 rounded-xl border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all">Add Document B</button>
+          </div>
+
+          {versions.length > 1 && (
+            <div className="pt-4 border-t border-slate-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400">Risk Trend</span>
+                <button
+                  onClick={onAnalyseRounds}
+                  disabled={analysingRound !== null}
+                  className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition-all disabled:opacity-40"
+                >
+                  {analysingRound !== null ? `Analysing v${analysingRound + 1}…` : 'Analyse Rounds'}
+                </button>
+              </div>
+              {hasAnalysis ? <RiskTrend versions={versions} /> : (
+                <p className="text-xs text-slate-400">Analyse the rounds to see how the risk profile moved from version to version.</p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="max-h-[420px] overflow-auto custom-scrollbar">
+          {versions.length < 2 ? (
+            <p className="p-6 text-sm text-slate-400">Add at least two versions to trace clause history.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <tr>
+                  <th className="text-left px-6 py-3">Clause</th>
+                  {versions.map((version, index) => (
+                    <th key={version.id} className="px-2 py-3 text-center" title={version.label}>v{index + 1}</th>
+                  ))}
+                  <th className="text-left px-6 py-3">Last change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {clauseHistory.map((history, row) => {
+                  const last = history.events[history.events.length - 1];
+                  const lastVersion = last ? versions[last.version] : undefined;
+                  return (
+                    <tr key={row} className={history.removed ? 'text-slate-400' : 'text-slate-700'}>
+                      <td className="px-6 py-2 font-bold">{history.label || 'Preamble'}</td>
+                      {versions.map((_, v) => {
+                        const event = history.events.find(e => e.version === v);
+                        return (
+                          <td key={v} className="px-2 py-2 text-center">
+                            {event ? <span className={`inline-block w-2.5 h-2.5 rounded-full ${EVENT_STYLES[event.kind].dot}`} title={EVENT_STYLES[event.kind].label}></span>
+                              : existsIn(history, v) ? <span className="inline-block w-1.5 h-1.5 rounded-full bg-slate-200"></span>
+                              : null}
+                          </td>
+                        );
+                      })}
+                      <td className="px-6 py-2">
+                        {last && lastVersion ? (
+                          <span>{EVENT_STYLES[last.kind].label} in <strong>{lastVersion.label}</strong>{lastVersion.party && ` by ${lastVersion.party}`}</span>
+                        ) : (
+                          <span className="text-slate-400">Unchanged since v1</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,491 @@
+import { LegalAnalysis, KeyChange, AlignedRow, LLMSettings, ThreeWayRegion } from "../types";
+import { isCounterpartyChange } from "../utils/threeWay";
+import { sha256 } from "../utils/hash";
+import { DEFAULT_LLM_SETTINGS, getProvider, JsonSchema } from "./llmProvider";
+
+const INSIGHTS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      id: { type: "integer", description: "The index ID provided in the prompt cluster." },
+      insight: { type: "string", description: "The concise legal explanation of the difference." }
+    },
+    required: ["id", "insight"]
+  }
+};
+
+const FINDINGS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      clause: { type: "string" },
+      impact: { type: "string", enum: ['positive', 'negative', 'neutral'] },
+      description: { type: "string" },
+      riskScore: { type: "integer" },
+      rows: { type: "array", items: { type: "integer" }, description: "The R numbers of the changes this finding is based on." },
+      quoteA: { type: "string", description: "Words copied exactly from Version A that the finding is about; empty if the text was added." },
+      quoteB: { type: "string", description: "Words copied exactly from Version B that the finding is about; empty if the text was deleted." }
+    },
+    required: ["clause", "impact", "description", "riskScore", "rows", "quoteA", "quoteB"]
+  }
+};
+
+const REPORT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    contractType: { type: "string" },
+    riskAssessment: {
+      type: "object",
+      properties: {
+        level: { type: "string", enum: ['Low', 'Medium', 'High'] },
+        explanation: { type: "string" }
+      },
+      required: ["level", "explanation"]
+    },
+    recommendations: {
+      type: "array",
+      items: { type: "string" }
+    }
+  },
+  required: ["summary", "riskAssessment", "recommendations"]
+};
+
+// Providers that do not enforce the schema can return anything, so responses are checked
+// and coerced to the types the rest of the app relies on.
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const asString = (value: unknown) => (typeof value === "string" ? value : "");
+const oneOf = <T extends string>(values: readonly T[], value: unknown, fallback: T): T =>
+  values.find(v => v.toLowerCase() === asString(value).trim().toLowerCase()) ?? fallback;
+
+type Report = Omit<LegalAnalysis, 'keyChanges'>;
+
+const IMPACTS = ["positive", "negative", "neutral"] as const;
+const RISK_LEVELS = ["Low", "Medium", "High"] as const;
+
+interface Finding {
+  clause: string;
+  impact: KeyChange["impact"];
+  description: string;
+  riskScore: number;
+  rows: number[];
+  quoteA: string;
+  quoteB: string;
+}
+
+// A finding without a description says nothing; a missing risk score counts as moderate.
+const toFinding = (value: unknown): Finding | null => {
+  const item = asRecord(value);
+  const description = asString(item.description).trim();
+  if (!description) return null;
+  const score = Math.round(Number(item.riskScore));
+  return {
+    clause: asString(item.clause).trim(),
+    impact: oneOf(IMPACTS, item.impact, "neutral"),
+    description,
+    riskScore: Number.isFinite(score) ? Math.min(10, Math.max(1, score)) : 5,
+    rows: asArray(item.rows).filter((row): row is number => Number.isInteger(row)),
+    quoteA: asString(item.quoteA),
+    quoteB: asString(item.quoteB),
+  };
+};
+
+const toReport = (value: unknown): Report => {
+  const item = asRecord(value);
+  const risk = asRecord(item.riskAssessment);
+  return {
+    summary: asString(item.summary),
+    contractType: asString(item.contractType) || undefined,
+    riskAssessment: { level: oneOf(RISK_LEVELS, risk.level, "Medium"), explanation: asString(risk.explanation) },
+    recommendations: asArray(item.recommendations).filter((r): r is string => typeof r === "string"),
+  };
+};
+
+export const extractTextFromBlob = async (base64Data: string, mimeType: string, llm: LLMSettings = DEFAULT_LLM_SETTINGS): Promise<string> => {
+  return getProvider(llm).generate({
+    prompt: `Extract text precisely. Preserve formatting and legal numbering. Return ONLY extracted text.`,
+    tier: "fast",
+    attachment: { data: base64Data, mimeType },
+  });
+};
+
+export type ExplanationKind = "comparison" | "counterparty";
+
+export interface ChangeToExplain {
+  index: number; // row index (comparison) or region index (counterparty)
+  kind: ExplanationKind;
+  before: string;
+  after: string;
+  ours?: string; // counterparty conflicts: our own version of the same text
+}
+
+export interface ExplanationProgress {
+  explained: number;
+  total: number;
+  failed: number;
+}
+
+export interface ExplanationResult {
+  explanations: Record<number, string>;
+  failed: ChangeToExplain[]; // changes whose batch failed; pass them back to retry
+}
+
+const BATCH_SIZE = 20;
+const BATCH_MAX_CHARS = 12000;
+const MAX_CHANGE_CHARS = 2000; // per side, so one huge change cannot blow up a request
+const CONCURRENCY = 3;
+
+// Insights by hash of provider, model and change text; survives re-comparing within a session.
+const insightCache = new Map<string, string>();
+
+// Runs `task` over the items with at most CONCURRENCY requests in flight.
+const runConcurrently = async <T>(items: T[], task: (item: T) => Promise<void>) => {
+  let next = 0;
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, async () => {
+    while (next < items.length) await task(items[next++]);
+  }));
+};
+
+const clip = (text: string, max = MAX_CHANGE_CHARS) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+const promptLine = (id: number, change: ChangeToExplain) => change.kind === "counterparty"
+  ? `[ID ${id}] Base: "${clip(change.before) || '(None)'}" -> Counterparty: "${clip(change.after) || '(Deleted)'}"${change.ours !== undefined ? ` | Our draft: "${clip(change.ours) || '(Deleted)'}"` : ''}`
+  : `[ID ${id}] Version A: "${clip(change.before) || '(None/Deleted)'}" -> Version B: "${clip(change.after) || '(None/Added)'}"`;
+
+const batchPrompt = (kind: ExplanationKind, lines: string[]) => kind === "counterparty"
+  ? `You are a high-level legal consultant acting for our side of a negotiation. We sent a draft (the BASE) to the counterparty; they returned their edits while we kept revising our own copy.
+  For each segment, provide a concise, 1-sentence explanation of what the counterparty's change means for us legally or commercially. Where we also changed the same text (a conflict), say how their version differs from ours.
+
+  COUNTERPARTY CHANGES:
+  ${lines.join('\n')}
+
+  Return a JSON array of objects, each containing an "id" (the ID integer from the input list) and an "insight" (your explanation string).`
+  : `You are a high-level legal consultant. Analyze these specific textual differences between two versions of a document.
+  For each segment, provide a concise, 1-sentence explanation of why this change matters legally or commercially.
+  
+  DIFFERENCES TO ANALYZE:
+  ${lines.join('\n')}
+
+  Return a JSON array of objects, each containing an "id" (the ID integer from the input list) and an "insight" (your explanation string).`;
+
+/**
+ * Explains every change. Changes already explained with the same text (by hash) come
+ * from the cache; identical changes are asked about once; the rest go out in batches
+ * bounded by count and size, a few at a time. A failing batch does not stop the
+ * others: its changes are returned in `failed` so exactly those can be retried.
+ */
+export const explainChanges = async (
+  changes: ChangeToExplain[],
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  onProgress?: (progress: ExplanationProgress) => void
+): Promise<ExplanationResult> => {
+  const explanations: Record<number, string> = {};
+  const failed: ChangeToExplain[] = [];
+  const provider = getProvider(llm);
+  // Two servers can serve a model under the same name, so the endpoint is part of the scope.
+  const scope = `${llm.provider}\u0000${llm.endpoint ?? ''}\u0000${llm.model ?? ''}`;
+
+  // Group identical changes under one cache key.
+  const pending = new Map<string, ChangeToExplain[]>();
+  for (const change of changes) {
+    const key = await sha256([scope, change.kind, change.before, change.after, change.ours ?? ''].join('\u0000'));
+    const cached = insightCache.get(key);
+    if (cached) explanations[change.index] = cached;
+    else pending.set(key, [...(pending.get(key) ?? []), change]);
+  }
+
+  let explained = Object.keys(explanations).length;
+  const report = () => onProgress?.({ explained, total: changes.length, failed: failed.length });
+  report();
+
+  const batches: [string, ChangeToExplain[]][][] = [];
+  let batch: [string, ChangeToExplain[]][] = [];
+  let batchChars = 0;
+  for (const entry of pending) {
+    const size = promptLine(0, entry[1][0]).length;
+    if (batch.length && (batch.length >= BATCH_SIZE || batchChars + size > BATCH_MAX_CHARS || batch[0][1][0].kind !== entry[1][0].kind)) {
+      batches.push(batch);
+      batch = [];
+      batchChars = 0;
+    }
+    batch.push(entry);
+    batchChars += size;
+  }
+  if (batch.length) batches.push(batch);
+
+  const runBatch = async (entries: [string, ChangeToExplain[]][]) => {
+    // Ids are positions within the batch, so the model never sees row numbers it could confuse.
+    const prompt = batchPrompt(entries[0][1][0].kind, entries.map(([, group], id) => promptLine(id, group[0])));
+    let answered = new Map<number, string>();
+    try {
+      const text = await provider.generate({ prompt, tier: "deep", schema: INSIGHTS_SCHEMA });
+      const parsed = asArray(JSON.parse(text || "[]")).map(asRecord);
+      answered = new Map(parsed
+        .filter(item => Number.isInteger(item.id) && asString(item.insight).trim())
+        .map(item => [item.id as number, asString(item.insight)]));
+    } catch (error) {
+      console.error("AI Intelligence Error:", error);
+    }
+    entries.forEach(([key, group], id) => {
+      const insight = answered.get(id);
+      if (insight === undefined) {
+        failed.push(...group);
+        return;
+      }
+      insightCache.set(key, insight);
+      for (const change of group) explanations[change.index] = insight;
+      explained += group.length;
+    });
+    report();
+  };
+
+  await runConcurrently(batches, runBatch);
+
+  return { explanations, failed };
+};
+
+export const getSmartExplanations = async (
+  rows: AlignedRow[],
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  onProgress?: (progress: ExplanationProgress) => void
+): Promise<ExplanationResult> => {
+  // Extract segments that actually contain changes to minimize tokens and focus intelligence
+  const changes: ChangeToExplain[] = rows
+    .map((row, index) => ({ 
+      index, 
+      kind: "comparison" as const,
+      before: row.left?.value ?? '', 
+      after: row.right?.value ?? '',
+      isChange: !row.ignored && (row.left?.type !== 'unchanged' || row.right?.type !== 'unchanged')
+    }))
+    .filter(c => c.isChange && (c.before.trim() || c.after.trim()))
+    .map(({ isChange, ...change }) => change);
+
+  return explainChanges(changes, llm, onProgress);
+};
+
+/**
+ * Smart explanations for a three-way comparison. Only the counterparty's edits and
+ * the conflicts are explained, from our side of the negotiation; results are keyed
+ * by region index.
+ */
+export const getCounterpartyExplanations = async (
+  regions: ThreeWayRegion[],
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  onProgress?: (progress: ExplanationProgress) => void
+): Promise<ExplanationResult> => {
+  const changes: ChangeToExplain[] = regions
+    .map((region, index) => ({ index, region }))
+    .filter(({ region }) => isCounterpartyChange(region))
+    .map(({ index, region }) => ({
+      index,
+      kind: "counterparty",
+      before: region.base,
+      after: region.theirs,
+      ours: region.origin === 'both' ? region.ours : undefined,
+    }));
+
+  return explainChanges(changes, llm, onProgress);
+};
+
+export interface AnalysisProgress {
+  done: number; // requests completed
+  total: number; // grows if the findings need more than one merge step
+}
+
+const CONTEXT_CHARS = 600; // unchanged text of a clause shown around its changes
+const MAX_FINDING_CHARS = 1500;
+const PREAMBLE_CHARS = 1500; // opening of the revised document, to name the contract type
+
+interface SectionPart {
+  clause: string;
+  context: string;
+  lines: string[];
+  rows: number[];
+}
+
+const PREAMBLE = "Preamble";
+
+/**
+ * Splits the changed rows into chunks of whole clauses, each at most BATCH_MAX_CHARS
+ * of prompt text. A clause with more changes than fit is split over several parts.
+ */
+function chunkChangedClauses(rows: AlignedRow[]): SectionPart[][] {
+  const sections = new Map<string, { context: string; changes: { row: number; line: string }[] }>();
+  rows.forEach((row, index) => {
+    const clause = row.clausePath?.join(' › ') || PREAMBLE;
+    const section = sections.get(clause) ?? { context: '', changes: [] };
+    sections.set(clause, section);
+    const before = row.left?.value ?? '';
+    const after = row.right?.value ?? '';
+    if (row.ignored || (!before.trim() && !after.trim())) return;
+    if (row.left?.type === 'unchanged' && row.right?.type === 'unchanged') {
+      if (section.context.length < CONTEXT_CHARS) section.context = clip(`${section.context}${after}`, CONTEXT_CHARS);
+      return;
+    }
+    const moved = row.move ? ` (moved ${row.move.role === 'source' ? 'away' : 'here'})` : '';
+    section.changes.push({
+      row: index,
+      line: `${moved} Version A: "${clip(before) || '(None/Added)'}" -> Version B: "${clip(after) || '(None/Deleted)'}"`,
+    });
+  });
+
+  const chunks: SectionPart[][] = [];
+  let chunk: SectionPart[] = [];
+  let chunkChars = 0;
+  const flush = () => {
+    if (chunk.length) chunks.push(chunk);
+    chunk = [];
+    chunkChars = 0;
+  };
+  for (const [clause, { context, changes }] of sections) {
+    let part: SectionPart | null = null;
+    for (const { row, line } of changes) {
+      const overflow = chunk.length > 0 && chunkChars + line.length > BATCH_MAX_CHARS;
+      if (overflow) flush();
+      if (!part || overflow) {
+        part = { clause, context, lines: [], rows: [] };
+        chunk.push(part);
+        chunkChars += clause.length + context.length;
+      }
+      part.lines.push(line);
+      part.rows.push(row);
+      chunkChars += line.length;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// Changes are numbered within the chunk, as in explainChanges: R n is the n-th row of the chunk.
+const findingsPrompt = (parts: SectionPart[]) => {
+  let id = 0;
+  const sections = parts.map(part =>
+    `CLAUSE: ${part.clause}${part.context ? `\n  Unchanged text: "${part.context}"` : ''}\n  ${part.lines.map(line => `[R ${id++}]${line}`).join('\n  ')}`);
+  return `You are elite legal counsel reviewing the changes from Version A to Version B of a contract, clause by clause.
+  Below are the changed passages, grouped by clause, each tagged with an R number.
+
+  ${sections.join('\n\n  ')}
+
+  Report each legally or commercially material change (Financial, Liability, Termination, IP, Law and similar). Related changes in one clause may form a single finding.
+  Return a JSON array of findings, each with the "clause" it concerns (as labelled above), its "impact" on the party accepting Version B, a concise "description", a "riskScore" from 1 to 10, the "rows": the R numbers of the changes it is based on, and short verbatim quotes of the affected wording from each version ("quoteA", "quoteB").`;
+};
+
+const reportPrompt = (items: string[], preamble: string, partial: boolean) => `You are elite legal counsel. ${partial
+  ? 'Below is part of the findings of a clause-by-clause review of a revised contract. Condense them into an interim report.'
+  : 'Below are the findings of a clause-by-clause review of the changes between two versions of a contract. Write the overall report.'}
+  ${preamble ? `\n  OPENING OF THE REVISED CONTRACT:\n  "${preamble}"\n` : ''}
+  FINDINGS:
+  ${items.join('\n')}
+
+  Return JSON with an executive "summary", the "contractType", an overall "riskAssessment" (level and explanation) and concrete "recommendations".`;
+
+const normalizeQuote = (text: string) =>
+  text.replace(/[\u2018\u2019]/g, "'").replace(/[\u201C\u201D]/g, '"').replace(/\s+/g, ' ').trim().toLowerCase();
+
+// A quote counts as found if every part of it (models elide with "...") occurs in one of the texts.
+const isQuoted = (quote: string, texts: string[]) => {
+  const parts = normalizeQuote(quote).split(/\s*(?:\.\.\.|…)\s*/).filter(Boolean);
+  return texts.some(text => parts.every(part => text.includes(part)));
+};
+
+/**
+ * Deep Legal Analysis of a comparison, in two steps so that no request grows with
+ * the length of the contract. Map: the changed rows are sent clause by clause, in
+ * bounded chunks, and each chunk yields findings that cite the rows they rest on.
+ * Reduce: the findings are merged into one report; when they are too many for a
+ * single request, they are condensed into interim reports first.
+ */
+export const analyzeComparison = async (
+  rows: AlignedRow[],
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<LegalAnalysis> => {
+  const provider = getProvider(llm);
+  const chunks = chunkChangedClauses(rows);
+  if (chunks.length === 0) {
+    return {
+      summary: "The two versions contain no substantive differences.",
+      keyChanges: [],
+      riskAssessment: { level: 'Low', explanation: "No text was changed, so the risk profile is unchanged." },
+      recommendations: [],
+    };
+  }
+
+  let done = 0;
+  let total = chunks.length + 1;
+  const report = () => onProgress?.({ done, total });
+  report();
+
+  const generateJson = async (prompt: string, schema: JsonSchema): Promise<unknown> => {
+    const text = await provider.generate({ prompt, tier: "deep", schema });
+    try {
+      return JSON.parse(text || "null");
+    } catch (error) {
+      throw new Error("The legal analysis could not be parsed successfully.");
+    } finally {
+      done++;
+      report();
+    }
+  };
+
+  const documents = [
+    normalizeQuote(rows.map(row => row.left?.value ?? '').join('')),
+    normalizeQuote(rows.map(row => row.right?.value ?? '').join('')),
+  ];
+  const keyChanges: KeyChange[] = [];
+  await runConcurrently(chunks, async parts => {
+    const findings = asArray(await generateJson(findingsPrompt(parts), FINDINGS_SCHEMA)).map(toFinding);
+    const chunkRows = parts.flatMap(part => part.rows);
+    for (const finding of findings) {
+      if (!finding) continue;
+      // Unknown R numbers are dropped; a finding citing none is attributed to its clause.
+      const cited = chunkRows.filter((_, id) => finding.rows.includes(id));
+      const rowsOf = cited.length ? cited : parts.find(part => part.clause === finding.clause)?.rows ?? [];
+      keyChanges.push({
+        clause: finding.clause,
+        impact: finding.impact,
+        description: finding.description,
+        riskScore: finding.riskScore,
+        clauses: [...new Set(parts.filter(part => part.rows.some(row => rowsOf.includes(row))).map(part => part.clause))],
+        rows: rowsOf,
+        quoteA: finding.quoteA.trim() || undefined,
+        quoteB: finding.quoteB.trim() || undefined,
+        // Unverified: no quote at all, or a quote that appears in neither document.
+        unverified: ![finding.quoteA, finding.quoteB].some(quote => quote.trim())
+          || [finding.quoteA, finding.quoteB].some(quote => quote.trim() && !isQuoted(quote, documents)),
+      });
+    }
+  });
+  keyChanges.sort((a, b) => b.riskScore - a.riskScore || (a.rows?.[0] ?? 0) - (b.rows?.[0] ?? 0));
+
+  const preamble = clip(rows.map(row => row.right?.value ?? '').join('').trim(), PREAMBLE_CHARS);
+  let items = keyChanges.map(change =>
+    clip(`- ${change.clause} (${change.impact}, risk ${change.riskScore}/10): ${change.description}`, MAX_FINDING_CHARS));
+  while (items.join('\n').length > BATCH_MAX_CHARS) {
+    const groups: string[][] = [[]];
+    let groupChars = 0;
+    for (const item of items) {
+      if (groups[groups.length - 1].length && groupChars + item.length > BATCH_MAX_CHARS) {
+        groups.push([]);
+        groupChars = 0;
+      }
+      groups[groups.length - 1].push(item);
+      groupChars += item.length + 1;
+    }
+    total += groups.length;
+    const interim: string[] = [];
+    await runConcurrently(groups.map((group, i) => [group, i] as const), async ([group, i]) => {
+      const partial = toReport(await generateJson(reportPrompt(group, '', true), REPORT_SCHEMA));
+      interim[i] = clip(`- Interim report (${partial.riskAssessment.level} risk): ${partial.summary} Recommendations: ${partial.recommendations.join(' ')}`, MAX_FINDING_CHARS);
+    });
+    items = interim;
+  }
+
+  const overall = toReport(await generateJson(reportPrompt(items, preamble, false), REPORT_SCHEMA));
+  return { ...overall, keyChanges };
+};
@@ -0,0 +1,206 @@
+import JSZip from "jszip";
+import { AlignedRow, UserComment } from "../types";
+
+export interface DocxExportOptions {
+  author: string;
+  date?: Date;
+  comments: UserComment[];
+  smartExplanations?: Record<number, string>; // included as Word comments when provided
+  trackRevisions?: boolean; // open with Track Changes on; defaults to true, off for a clean final copy
+}
+
+const NS_W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const NS_W14 = "http://schemas.microsoft.com/office/word/2010/wordml";
+const NS_W15 = "http://schemas.microsoft.com/office/word/2012/wordml";
+const NS_MC = "http://schemas.openxmlformats.org/markup-compatibility/2006";
+const NS_R = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const AI_AUTHOR = "LexiDiff AI";
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" }[c]!))
+    // Control characters other than tab/newline are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+type Revision = "equal" | "del" | "ins";
+
+interface WordComment {
+  id: number;
+  author: string;
+  date: string;
+  text: string;
+  paraId: string;
+  parentParaId?: string;
+  done: boolean;
+}
+
+/**
+ * Streams text into WordprocessingML paragraphs. Line breaks end a paragraph; a
+ * line break that was itself deleted or inserted marks the paragraph mark as a
+ * revision, so accepting or rejecting it in Word joins or splits paragraphs.
+ */
+class DocumentWriter {
+  private paragraphs: string[] = [];
+  private current: string[] = [];
+  private nextId: { value: number };
+  private attrs: string;
+
+  constructor(author: string, date: string, ids: { value: number }) {
+    this.attrs = `w:author="${escapeXml(author)}" w:date="${date}"`;
+    this.nextId = ids;
+  }
+
+  private run(text: string, revision: Revision): string {
+    const textTag = revision === "del" ? "w:delText" : "w:t";
+    const parts = text.split("\t").map(p => (p ? `<${textTag} xml:space="preserve">${escapeXml(p)}</${textTag}>` : ""));
+    const body = parts.join("<w:tab/>");
+    if (!body) return "";
+    const run = `<w:r>${body}</w:r>`;
+    if (revision === "equal") return run;
+    return `<w:${revision} w:id="${this.nextId.value++}" ${this.attrs}>${run}</w:${revision}>`;
+  }
+
+  private endParagraph(mark: Revision) {
+    const pPr = mark === "equal" ? "" : `<w:pPr><w:rPr><w:${mark} w:id="${this.nextId.value++}" ${this.attrs}/></w:rPr></w:pPr>`;
+    this.paragraphs.push(`<w:p>${pPr}${this.current.join("")}</w:p>`);
+    this.current = [];
+  }
+
+  write(text: string, revision: Revision) {
+    const lines = text.replace(/\r\n?/g, "\n").split("\n");
+    lines.forEach((line, i) => {
+      if (i > 0) this.endParagraph(revision);
+      this.current.push(this.run(line, revision));
+    });
+  }
+
+  raw(xml: string) {
+    this.current.push(xml);
+  }
+
+  finish(): string {
+    this.endParagraph("equal");
+    return this.paragraphs.join("");
+  }
+}
+
+const paraIdFor = (n: number) => (0x10000000 + n).toString(16).toUpperCase().padStart(8, "0");
+
+/**
+ * Collects the Word comments to attach to each row: review threads (root first,
+ * then replies linked through commentsExtended) and, optionally, AI insights.
+ */
+function collectComments(options: DocxExportOptions, date: string, ids: { value: number }): Map<number, WordComment[]> {
+  const byRow = new Map<number, WordComment[]>();
+  const add = (row: number, comment: WordComment) => {
+    if (!byRow.has(row)) byRow.set(row, []);
+    byRow.get(row)!.push(comment);
+  };
+  let paraSeq = 1;
+
+  const roots = options.comments.filter(c => !c.parentId).sort((a, b) => a.timestamp - b.timestamp);
+  for (const root of roots) {
+    const rootParaId = paraIdFor(paraSeq++);
+    add(root.diffIndex, {
+      id: ids.value++, author: root.author, date: new Date(root.timestamp).toISOString().replace(/\.\d{3}Z$/, "Z"),
+      text: root.text, paraId: rootParaId, done: Boolean(root.resolved),
+    });
+    options.comments
+      .filter(c => c.parentId === root.id)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(reply => add(root.diffIndex, {
+        id: ids.value++, author: reply.author, date: new Date(reply.timestamp).toISOString().replace(/\.\d{3}Z$/, "Z"),
+        text: reply.text, paraId: paraIdFor(paraSeq++), parentParaId: rootParaId, done: Boolean(root.resolved),
+      }));
+  }
+
+  for (const [index, insight] of Object.entries(options.smartExplanations ?? {})) {
+    add(Number(index), { id: ids.value++, author: AI_AUTHOR, date, text: insight, paraId: paraIdFor(paraSeq++), done: false });
+  }
+  return byRow;
+}
+
+const commentsXml = (comments: WordComment[]) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:comments xmlns:w="${NS_W}" xmlns:w14="${NS_W14}">${comments.map(c =>
+    `<w:comment w:id="${c.id}" w:author="${escapeXml(c.author)}" w:date="${c.date}" w:initials="${escapeXml(c.author.split(/\s+/).map(p => p[0] ?? "").join("").slice(0, 3))}">` +
+    c.text.split("\n").map((line, i, lines) =>
+      // Threading (commentsExtended) refers to the paraId of the comment's last paragraph.
+      `<w:p${i === lines.length - 1 ? ` w14:paraId="${c.paraId}" w14:textId="77777777"` : ""}>${i === 0 ? `<w:r><w:annotationRef/></w:r>` : ""}<w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`
+    ).join("") +
+    `</w:comment>`
+  ).join("")}</w:comments>`;
+
+const commentsExtendedXml = (comments: WordComment[]) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w15:commentsEx xmlns:mc="${NS_MC}" xmlns:w15="${NS_W15}" mc:Ignorable="w15">${comments.map(c =>
+    `<w15:commentEx w15:paraId="${c.paraId}"${c.parentParaId ? ` w15:paraIdParent="${c.parentParaId}"` : ""} w15:done="${c.done ? 1 : 0}"/>`
+  ).join("")}</w15:commentsEx>`;
+
+/**
+ * Builds a .docx of the revised document in which every difference is a genuine
+ * Word revision (w:del / w:ins) by `author`, so it can be accepted or rejected in
+ * Word or LibreOffice. Review comments become threaded Word comments.
+ */
+export const exportTrackedChangesDocx = async (rows: AlignedRow[], options: DocxExportOptions): Promise<Blob> => {
+  const date = (options.date ?? new Date()).toISOString().replace(/\.\d{3}Z$/, "Z");
+  const ids = { value: 1 };
+  const commentsByRow = collectComments(options, date, ids);
+  const writer = new DocumentWriter(options.author || "LexiDiff", date, ids);
+
+  rows.forEach((row, index) => {
+    const rowComments = commentsByRow.get(index) ?? [];
+    rowComments.forEach(c => writer.raw(`<w:commentRangeStart w:id="${c.id}"/>`));
+
+    if (row.ignored) {
+      // Text excluded from comparison: keep the revised document's copy, drop the original's.
+      if (row.right) writer.write(row.right.value, "equal");
+    } else {
+      if (row.left && row.left.type !== "unchanged") writer.write(row.left.value, "del");
+      if (row.right) {
+        const inserted = row.right.type !== "unchanged";
+        writer.write(row.right.value, inserted ? "ins" : "equal");
+      } else if (row.left?.type === "unchanged") {
+        writer.write(row.left.value, "equal");
+      }
+    }
+
+    rowComments.forEach(c => writer.raw(`<w:commentRangeEnd w:id="${c.id}"/><w:r><w:commentReference w:id="${c.id}"/></w:r>`));
+  });
+
+  const allComments = [...commentsByRow.values()].flat();
+  const hasComments = allComments.length > 0;
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>${hasComments ? `
+<Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>
+<Override PartName="/word/commentsExtended.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.commentsExtended+xml"/>` : ""}
+</Types>`);
+  zip.file("_rels/.rels", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`);
+  zip.file("word/_rels/document.xml.rels", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>${hasComments ? `
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments" Target="comments.xml"/>
+<Relationship Id="rId3" Type="http://schemas.microsoft.com/office/2011/relationships/commentsExtended" Target="commentsExtended.xml"/>` : ""}
+</Relationships>`);
+  zip.file("word/settings.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="${NS_W}">${options.trackRevisions === false ? "" : "<w:trackRevisions/>"}</w:settings>`);
+  zip.file("word/document.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}"><w:body>${writer.finish()}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`);
+  if (hasComments) {
+    zip.file("word/comments.xml", commentsXml(allComments));
+    zip.file("word/commentsExtended.xml", commentsExtendedXml(allComments));
+  }
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+};
@@ -0,0 +1,279 @@
+import JSZip from "jszip";
+import { ImportedComment } from "../types";
+
+const NS_W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const NS_W14 = "http://schemas.microsoft.com/office/word/2010/wordml";
+const NS_W15 = "http://schemas.microsoft.com/office/word/2012/wordml";
+
+export interface DocxVariant {
+  text: string;
+  comments: ImportedComment[];
+}
+
+export interface DocxImport {
+  original: DocxVariant; // all tracked changes rejected
+  accepted: DocxVariant; // all tracked changes accepted
+  hasRevisions: boolean;
+}
+
+export type DocxState = "original" | "accepted";
+
+const attr = (el: Element | null | undefined, name: string) => el?.getAttributeNS(NS_W, name) ?? el?.getAttribute(`w:${name}`) ?? null;
+const children = (el: Element, localName: string) =>
+  Array.from(el.childNodes).filter((n): n is Element => n.nodeType === 1 && (n as Element).localName === localName && (n as Element).namespaceURI === NS_W);
+const child = (el: Element | null | undefined, localName: string) => (el ? children(el, localName)[0] ?? null : null);
+
+const parseXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async("string"), "application/xml");
+};
+
+interface LevelDef {
+  format: string;
+  text: string;
+  start: number;
+}
+
+const toRoman = (n: number) => {
+  const table: [number, string][] = [[1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"], [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"]];
+  let out = "";
+  for (const [value, numeral] of table) while (n >= value) { out += numeral; n -= value; }
+  return out;
+};
+
+const toLetters = (n: number) => {
+  let out = "";
+  for (; n > 0; n = Math.floor((n - 1) / 26)) out = String.fromCharCode(97 + ((n - 1) % 26)) + out;
+  return out;
+};
+
+const formatNumber = (n: number, format: string) => {
+  switch (format) {
+    case "lowerLetter": return toLetters(n);
+    case "upperLetter": return toLetters(n).toUpperCase();
+    case "lowerRoman": return toRoman(n);
+    case "upperRoman": return toRoman(n).toUpperCase();
+    case "bullet": case "none": return "";
+    default: return String(n);
+  }
+};
+
+/**
+ * Re-creates Word's automatic list numbering ("1.", "2.1", "(a)") from numbering.xml,
+ * which plain-text extraction loses even though contracts depend on it.
+ */
+class ListNumbering {
+  private levels = new Map<string, LevelDef[]>(); // by abstractNumId
+  private numToAbstract = new Map<string, string>();
+  private counters = new Map<string, number[]>(); // by abstractNumId
+
+  constructor(numbering: Document | null) {
+    if (!numbering) return;
+    for (const abstract of Array.from(numbering.getElementsByTagNameNS(NS_W, "abstractNum"))) {
+      const defs: LevelDef[] = [];
+      for (const lvl of children(abstract, "lvl")) {
+        defs[Number(attr(lvl, "ilvl") ?? 0)] = {
+          format: attr(child(lvl, "numFmt"), "val") ?? "decimal",
+          text: attr(child(lvl, "lvlText"), "val") ?? "",
+          start: Number(attr(child(lvl, "start"), "val") ?? 1),
+        };
+      }
+      this.levels.set(attr(abstract, "abstractNumId") ?? "", defs);
+    }
+    for (const num of Array.from(numbering.getElementsByTagNameNS(NS_W, "num"))) {
+      this.numToAbstract.set(attr(num, "numId") ?? "", attr(child(num, "abstractNumId"), "val") ?? "");
+    }
+  }
+
+  next(numId: string, ilvl: number): string {
+    const abstractId = this.numToAbstract.get(numId);
+    const defs = abstractId !== undefined ? this.levels.get(abstractId) : undefined;
+    const def = defs?.[ilvl];
+    if (!abstractId || !defs || !def) return "";
+
+    const counters = this.counters.get(abstractId) ?? [];
+    for (let l = 0; l < ilvl; l++) if (counters[l] === undefined) counters[l] = defs[l]?.start ?? 1;
+    counters[ilvl] = counters[ilvl] === undefined ? def.start : counters[ilvl] + 1;
+    counters.length = ilvl + 1; // deeper levels restart
+    this.counters.set(abstractId, counters);
+
+    if (def.format === "bullet") return "•";
+    return def.text.replace(/%(\d)/g, (_, d) => formatNumber(counters[Number(d) - 1] ?? 1, defs[Number(d) - 1]?.format ?? "decimal"));
+  }
+}
+
+interface CommentMeta {
+  author: string;
+  timestamp: number;
+  text: string;
+  paraId: string | null;
+}
+
+async function readComments(zip: JSZip): Promise<{ byId: Map<string, CommentMeta>; parentOf: Map<string, string>; done: Set<string> }> {
+  const byId = new Map<string, CommentMeta>();
+  const parentOf = new Map<string, string>();
+  const done = new Set<string>();
+  const doc = await parseXml(zip, "word/comments.xml");
+  if (!doc) return { byId, parentOf, done };
+
+  const idByParaId = new Map<string, string>();
+  for (const comment of Array.from(doc.getElementsByTagNameNS(NS_W, "comment"))) {
+    const id = attr(comment, "id") ?? "";
+    const paragraphs = children(comment, "p");
+    // Word records the thread link on the comment's last paragraph.
+    const paraId = paragraphs.length ? paragraphs[paragraphs.length - 1].getAttributeNS(NS_W14, "paraId") : null;
+    if (paraId) idByParaId.set(paraId, id);
+    const timestamp = Date.parse(attr(comment, "date") ?? "");
+    byId.set(id, {
+      author: attr(comment, "author") ?? "Unknown",
+      timestamp: Number.isNaN(timestamp) ? Date.now() : timestamp,
+      text: paragraphs.map(p => Array.from(p.getElementsByTagNameNS(NS_W, "t")).map(t => t.textContent).join("")).join("\n"),
+      paraId,
+    });
+  }
+
+  const extended = await parseXml(zip, "word/commentsExtended.xml");
+  for (const ex of Array.from(extended?.getElementsByTagNameNS(NS_W15, "commentEx") ?? [])) {
+    const id = idByParaId.get(ex.getAttributeNS(NS_W15, "paraId") ?? "");
+    const parent = idByParaId.get(ex.getAttributeNS(NS_W15, "paraIdParent") ?? "");
+    if (id && parent) parentOf.set(id, parent);
+    if (id && ex.getAttributeNS(NS_W15, "done") === "1") done.add(id);
+  }
+  return { byId, parentOf, done };
+}
+
+type Revision = "none" | "ins" | "del";
+
+/**
+ * Builds the "original" and "accepted" texts side by side in a single walk of the
+ * document body, tracking where each comment range starts in both.
+ */
+class VariantBuilder {
+  original = "";
+  accepted = "";
+  hasRevisions = false;
+  starts = new Map<string, [number, number]>();
+  ends = new Map<string, [number, number]>();
+
+  append(text: string, revision: Revision) {
+    if (revision !== "none") this.hasRevisions = true;
+    if (revision !== "ins") this.original += text;
+    if (revision !== "del") this.accepted += text;
+  }
+}
+
+/**
+ * Imports a .docx keeping paragraph structure, list numbering and tables, and
+ * returning both tracked-change states plus the embedded comments. Replaces the
+ * plain-text extraction, which silently resolved revisions and dropped comments.
+ */
+export const importDocx = async (data: ArrayBuffer): Promise<DocxImport> => {
+  const zip = await JSZip.loadAsync(data);
+  const document = await parseXml(zip, "word/document.xml");
+  if (!document) throw new Error("This file is not a Word document.");
+
+  const numberingXml = await parseXml(zip, "word/numbering.xml");
+  // Inserted and deleted paragraphs only count in one variant, so each keeps its own counters.
+  const numbering = { original: new ListNumbering(numberingXml), accepted: new ListNumbering(numberingXml) };
+  const styles = await parseXml(zip, "word/styles.xml");
+  const styleNumPr = new Map<string, Element>();
+  for (const style of Array.from(styles?.getElementsByTagNameNS(NS_W, "style") ?? [])) {
+    const numPr = child(child(style, "pPr"), "numPr");
+    if (numPr) styleNumPr.set(attr(style, "styleId") ?? "", numPr);
+  }
+  const { byId, parentOf, done } = await readComments(zip);
+  const out = new VariantBuilder();
+
+  const walkInline = (el: Element, revision: Revision) => {
+    for (const node of Array.from(el.childNodes)) {
+      if (node.nodeType !== 1) continue;
+      const e = node as Element;
+      if (e.namespaceURI !== NS_W) continue;
+      switch (e.localName) {
+        case "ins": case "moveTo": walkInline(e, "ins"); break;
+        case "del": case "moveFrom": walkInline(e, "del"); break;
+        case "t": case "delText": out.append(e.textContent ?? "", revision); break;
+        case "tab": out.append("\t", revision); break;
+        case "br": case "cr": out.append("\n", revision); break;
+        case "noBreakHyphen": out.append("-", revision); break;
+        case "commentRangeStart": out.starts.set(attr(e, "id") ?? "", [out.original.length, out.accepted.length]); break;
+        case "commentRangeEnd": out.ends.set(attr(e, "id") ?? "", [out.original.length, out.accepted.length]); break;
+        case "r": case "hyperlink": case "smartTag": case "sdt": case "sdtContent": case "fldSimple": walkInline(e, revision); break;
+      }
+    }
+  };
+
+  const walkParagraph = (p: Element) => {
+    const pPr = child(p, "pPr");
+    const numPr = child(pPr, "numPr") ?? styleNumPr.get(attr(child(pPr, "pStyle"), "val") ?? "") ?? null;
+    const markRevision: Revision = child(child(pPr, "rPr"), "ins") ? "ins" : child(child(pPr, "rPr"), "del") ? "del" : "none";
+    if (numPr) {
+      const numId = attr(child(numPr, "numId"), "val") ?? "";
+      const ilvl = Number(attr(child(numPr, "ilvl"), "val") ?? 0);
+      const originalLabel = markRevision !== "ins" ? numbering.original.next(numId, ilvl) : "";
+      const acceptedLabel = markRevision !== "del" ? numbering.accepted.next(numId, ilvl) : "";
+      if (originalLabel === acceptedLabel) {
+        if (originalLabel) out.append(`${originalLabel} `, markRevision);
+      } else {
+        // Renumbered by a paragraph inserted or deleted earlier in the list.
+        if (originalLabel) out.append(`${originalLabel} `, "del");
+        if (acceptedLabel) out.append(`${acceptedLabel} `, "ins");
+      }
+    }
+    walkInline(p, "none");
+    out.append("\n", markRevision);
+  };
+
+  const walkBlock = (el: Element) => {
+    for (const node of Array.from(el.childNodes)) {
+      if (node.nodeType !== 1) continue;
+      const e = node as Element;
+      if (e.namespaceURI !== NS_W) continue;
+      if (e.localName === "p") walkParagraph(e);
+      else if (e.localName === "tbl") {
+        for (const row of children(e, "tr")) {
+          children(row, "tc").forEach((cell, i) => {
+            if (i > 0) out.append("\t", "none");
+            const paragraphs = children(cell, "p");
+            paragraphs.forEach((p, j) => {
+              walkInline(p, "none");
+              if (j < paragraphs.length - 1) out.append(" ", "none");
+            });
+          });
+          out.append("\n", "none");
+        }
+      } else if (e.localName === "sdt" || e.localName === "sdtContent" || e.localName === "customXml") {
+        walkBlock(e);
+      }
+    }
+  };
+
+  const body = document.getElementsByTagNameNS(NS_W, "body")[0];
+  if (body) walkBlock(body);
+
+  const variant = (which: 0 | 1): DocxVariant => {
+    const text = (which === 0 ? out.original : out.accepted).replace(/\n+$/, "");
+    const comments: ImportedComment[] = [];
+    byId.forEach((meta, id) => {
+      // Replies often carry no range of their own; they share their parent's.
+      const anchorId = out.starts.has(id) || out.ends.has(id) ? id : parentOf.get(id) ?? id;
+      const start = out.starts.get(anchorId)?.[which] ?? out.ends.get(anchorId)?.[which];
+      if (start === undefined) return;
+      const end = out.ends.get(anchorId)?.[which] ?? start;
+      comments.push({
+        id,
+        parentId: parentOf.get(id),
+        author: meta.author,
+        timestamp: meta.timestamp,
+        text: meta.text,
+        resolved: done.has(parentOf.get(id) ?? id),
+        offset: Math.min(start, text.length),
+        quote: text.slice(start, end),
+      });
+    });
+    return { text, comments };
+  };
+
+  return { original: variant(0), accepted: variant(1), hasRevisions: out.hasRevisions };
+};
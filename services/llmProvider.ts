@@ -0,0 +1,151 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { LLMProviderId, LLMSettings } from "../types";
+
+/**
+ * The subset of JSON Schema the prompts use to describe structured responses.
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LLMRequest {
+  prompt: string;
+  tier: "fast" | "deep"; // fast: text extraction; deep: legal reasoning
+  schema?: JsonSchema; // respond with JSON matching this schema
+  attachment?: { data: string; mimeType: string }; // base64 file contents
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  generate: (request: LLMRequest) => Promise<string>;
+}
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = { provider: "gemini" };
+
+export const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible endpoint",
+  mock: "Offline mock",
+};
+
+const GEMINI_MODELS = { deep: "gemini-3-pro-preview", fast: "gemini-3-flash-preview" };
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+});
+
+const createGeminiProvider = (settings: LLMSettings): LLMProvider => ({
+  id: "gemini",
+  generate: async ({ prompt, tier, schema, attachment }) => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    const model = tier === "fast" ? settings.fastModel || GEMINI_MODELS.fast : settings.model || GEMINI_MODELS.deep;
+    const response = await ai.models.generateContent({
+      model,
+      contents: attachment
+        ? { parts: [{ inlineData: { data: attachment.data, mimeType: attachment.mimeType } }, { text: prompt }] }
+        : prompt,
+      config: schema ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) } : undefined,
+    });
+    return response.text || "";
+  },
+});
+
+/**
+ * Any server speaking the OpenAI chat completions API: vLLM, llama.cpp, Ollama,
+ * LM Studio or a hosted gateway. Images are sent as data URLs for vision models.
+ */
+const createOpenAICompatibleProvider = (settings: LLMSettings): LLMProvider => ({
+  id: "openai",
+  generate: async ({ prompt, tier, schema, attachment }) => {
+    const endpoint = settings.endpoint?.trim().replace(/\/+$/, "");
+    const model = (tier === "fast" && settings.fastModel) || settings.model;
+    if (!endpoint || !model) throw new Error("Set the endpoint and model of the OpenAI-compatible provider in AI settings.");
+    if (attachment && !attachment.mimeType.startsWith("image/")) {
+      throw new Error(`The configured model cannot read ${attachment.mimeType} files.`);
+    }
+
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        messages: [{
+          role: "user",
+          content: attachment
+            ? [{ type: "text", text: prompt }, { type: "image_url", image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } }]
+            : prompt,
+        }],
+        ...(schema ? { response_format: { type: "json_schema", json_schema: { name: "response", schema } } } : {}),
+      }),
+    });
+    if (!response.ok) throw new Error(`The model endpoint responded with ${response.status} ${response.statusText}.`);
+    const body = await response.json();
+    return body.choices?.[0]?.message?.content ?? "";
+  },
+});
+
+/**
+ * Fills a schema with fixed values. Arrays of items carrying an integer "id" get
+ * one item per "[ID n]" marker in the prompt, which is how the prompts list changes.
+ */
+function mockValue(schema: JsonSchema, prompt: string, name: string, id?: number): unknown {
+  switch (schema.type) {
+    case "object": {
+      const entries = Object.entries(schema.properties ?? {}).map(([key, value]) =>
+        [key, key === "id" && id !== undefined ? id : mockValue(value, prompt, key, id)]);
+      return Object.fromEntries(entries);
+    }
+    case "array": {
+      const items = schema.items!;
+      if (items.properties?.id?.type === "integer") {
+        const ids = [...prompt.matchAll(/\[ID (\d+)\]/g)].map(m => Number(m[1]));
+        return ids.map(n => mockValue(items, prompt, name, n));
+      }
+      return [mockValue(items, prompt, name, id)];
+    }
+    case "string":
+      return schema.enum?.[0] ?? `Mock ${name}${id !== undefined ? ` for change ${id}` : ""}.`;
+    case "integer":
+    case "number":
+      return 5;
+    case "boolean":
+      return false;
+  }
+}
+
+/**
+ * Deterministic provider for demos and tests: no network, same answer every time.
+ */
+const createMockProvider = (): LLMProvider => ({
+  id: "mock",
+  generate: async ({ prompt, schema, attachment }) => {
+    if (schema) return JSON.stringify(mockValue(schema, prompt, "response"));
+    if (attachment?.mimeType.startsWith("text/")) {
+      return new TextDecoder().decode(Uint8Array.from(atob(attachment.data), c => c.charCodeAt(0)));
+    }
+    if (attachment) return `[Mock extraction of a ${attachment.mimeType} file]`;
+    return "Mock response.";
+  },
+});
+
+export const getProvider = (settings: LLMSettings = DEFAULT_LLM_SETTINGS): LLMProvider => {
+  switch (settings.provider) {
+    case "openai": return createOpenAICompatibleProvider(settings);
+    case "mock": return createMockProvider();
+    default: return createGeminiProvider(settings);
+  }
+};
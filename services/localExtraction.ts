@@ -0,0 +1,243 @@
+/// <reference types="vite/client" />
+import type { PDFPageProxy, TextItem } from "pdfjs-dist/types/src/display/api";
+import type { Worker as OcrWorker } from "tesseract.js";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import ocrWorkerUrl from "tesseract.js/dist/worker.min.js?url";
+import ocrCoreUrl from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import ocrCoreSimdUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import ocrLanguageUrl from "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url";
+import { pageBreakMarker } from "../utils/pageBreaks";
+
+export type ExtractionMethod = "text" | "ocr" | "ai";
+
+export interface ExtractedPage {
+  page: number; // 1-based
+  text: string;
+  method: ExtractionMethod; // 'text': the PDF's own text layer
+  confidence: number | null; // 0-100; null when read by the AI provider, which reports none
+}
+
+export interface ExtractionReport {
+  fileName: string;
+  pages: ExtractedPage[];
+  // kept so that single pages can be re-read with AI on request
+  source:
+    | { kind: "pdf"; data: ArrayBuffer }
+    | { kind: "image"; data: string; mimeType: string }
+    | { kind: "capture"; images: string[] }; // base64 JPEG of each photographed page, cropped and straightened
+}
+
+export interface ExtractionProgress {
+  page: number;
+  total: number;
+  method: ExtractionMethod;
+}
+
+/** Pages below this confidence are worth re-scanning or re-reading with AI. */
+export const LOW_CONFIDENCE = 70;
+
+const MIN_TEXT_CHARS = 25; // fewer printable characters than this: a scanned page without a text layer
+const OCR_SCALE = 2.5; // ~180 dpi, enough for body text without huge canvases
+const OCR_LANGUAGE = "eng";
+
+// The smallest module using a SIMD instruction; browsers that validate it run the faster OCR core.
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+// Both libraries are large and only needed once a PDF or image is uploaded.
+let pdfjsLoading: Promise<typeof import("pdfjs-dist")> | null = null;
+const loadPdfjs = () => pdfjsLoading ??= import("pdfjs-dist").then(pdfjs => {
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs;
+});
+
+/**
+ * Starts the OCR engine from the app's own assets, so scans are read without a
+ * network connection: tesseract.js would otherwise fetch its worker, its WebAssembly
+ * core and the English model from a CDN. The worker runs from a blob, so every path
+ * must be absolute.
+ */
+const createOcrWorker = async (): Promise<OcrWorker> => {
+  const { createWorker } = await import("tesseract.js");
+  const absolute = (url: string) => new URL(url, location.href).href;
+  const languageUrl = absolute(ocrLanguageUrl);
+  return createWorker(OCR_LANGUAGE, undefined, {
+    workerPath: absolute(ocrWorkerUrl),
+    corePath: absolute(WebAssembly.validate(SIMD_PROBE) ? ocrCoreSimdUrl : ocrCoreUrl),
+    // The model keeps its file name in the build (see vite.config.ts); tesseract.js asks for it by name.
+    langPath: languageUrl.slice(0, languageUrl.lastIndexOf("/")),
+  });
+};
+
+interface Line {
+  y: number;
+  left: number;
+  right: number;
+  height: number;
+  text: string;
+}
+
+const isCaps = (text: string) => /[A-Z]{2}/.test(text) && !/[a-z]/.test(text);
+// A line opening with clause numbering starts a new paragraph: "2.1", "(b)", "Article IV".
+const MARKER_RE = /^(?:\d+(?:\.\d+)*[.)]?\s|\((?:[a-z]{1,2}|[ivx]+|\d+)\)\s|(?:ARTICLE|Article|SECTION|Section)\s+[\dIVXLC])/;
+
+/**
+ * Groups text items into visual lines: same baseline within half a line height,
+ * ordered left to right, with a space wherever the glyph runs are apart.
+ */
+function layoutLines(items: TextItem[]): Line[] {
+  const sorted = items
+    .filter(item => item.str.trim())
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+  const groups: TextItem[][] = [];
+  for (const item of sorted) {
+    const last = groups[groups.length - 1];
+    const height = Math.abs(item.transform[3]) || item.height || 1;
+    if (last && Math.abs(last[0].transform[5] - item.transform[5]) < height / 2) last.push(item);
+    else groups.push([item]);
+  }
+
+  return groups.map(group => {
+    group.sort((a, b) => a.transform[4] - b.transform[4]);
+    const height = Math.max(...group.map(item => Math.abs(item.transform[3]) || item.height || 1));
+    let text = "";
+    let right = -Infinity;
+    for (const item of group) {
+      const x = item.transform[4];
+      if (text && x - right > height * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) text += " ";
+      text += item.str;
+      right = Math.max(right, x + item.width);
+    }
+    return { y: group[0].transform[5], left: group[0].transform[4], right, height, text: text.replace(/\s+/g, " ").trim() };
+  });
+}
+
+/**
+ * Joins visual lines back into paragraphs, so a clause wrapped over several lines
+ * diffs as one. A line starts a new paragraph after a wider-than-usual gap, after a
+ * short line, when it opens with clause numbering, or around an all-caps heading.
+ * Words hyphenated across a line break are rejoined.
+ */
+function joinLines(lines: Line[]): string {
+  if (!lines.length) return "";
+  const gaps = lines.slice(1).map((line, i) => lines[i].y - line.y).filter(gap => gap > 0).sort((a, b) => a - b);
+  const lineGap = gaps[Math.floor(gaps.length / 2)] ?? Infinity;
+  const left = Math.min(...lines.map(line => line.left));
+  const right = Math.max(...lines.map(line => line.right));
+
+  let out = lines[0].text;
+  for (let i = 1; i < lines.length; i++) {
+    const prev = lines[i - 1];
+    const line = lines[i];
+    const newParagraph = prev.y - line.y > lineGap * 1.4
+      || prev.right < right - (right - left) * 0.15
+      || MARKER_RE.test(line.text)
+      || isCaps(line.text)
+      || isCaps(prev.text);
+    if (newParagraph) out += "\n" + line.text;
+    else if (/[a-z]-$/.test(out) && /^[a-z]/.test(line.text)) out = out.slice(0, -1) + line.text;
+    else out += " " + line.text;
+  }
+  return out;
+}
+
+/**
+ * How much of a text layer is readable text, 0-100. Broken font encodings show up as
+ * replacement characters, private-use glyphs or control codes.
+ */
+function textLayerConfidence(text: string): number {
+  const printable = text.replace(/\s/g, "");
+  if (printable.length < MIN_TEXT_CHARS) return 0;
+  const readable = printable.match(/[\p{L}\p{N}\p{P}\p{S}]/gu)?.filter(ch => ch !== "�" && !/\p{Co}/u.test(ch)).length ?? 0;
+  return Math.round((readable / printable.length) * 100);
+}
+
+const renderPage = async (page: PDFPageProxy, scale: number): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+};
+
+// pdf.js takes ownership of the buffer it is given, so every load gets its own copy.
+const loadPdf = async (data: ArrayBuffer) => (await loadPdfjs()).getDocument({ data: data.slice(0) }).promise;
+
+const ocr = async (worker: OcrWorker, image: HTMLCanvasElement | Blob): Promise<{ text: string; confidence: number }> => {
+  const { data } = await worker.recognize(image);
+  return { text: data.text.replace(/[ \t]+\n/g, "\n").trim(), confidence: Math.round(data.confidence) };
+};
+
+/**
+ * Reads a PDF without it leaving the browser. Each page's text layer is used when
+ * it is readable; pages without one (scans) or with a broken one go through
+ * in-browser OCR. The OCR engine is only started once a page needs it.
+ */
+export const extractPdfText = async (data: ArrayBuffer, onProgress?: (progress: ExtractionProgress) => void): Promise<ExtractedPage[]> => {
+  const pdf = await loadPdf(data);
+  let worker: OcrWorker | null = null;
+  const pages: ExtractedPage[] = [];
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      onProgress?.({ page: number, total: pdf.numPages, method: "text" });
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const text = joinLines(layoutLines(content.items.filter((item): item is TextItem => "str" in item)));
+      const confidence = textLayerConfidence(text);
+      if (confidence >= LOW_CONFIDENCE) {
+        pages.push({ page: number, text, method: "text", confidence });
+        continue;
+      }
+
+      onProgress?.({ page: number, total: pdf.numPages, method: "ocr" });
+      worker ??= await createOcrWorker();
+      const scanned = await ocr(worker, await renderPage(page, OCR_SCALE));
+      pages.push(scanned.confidence >= confidence
+        ? { page: number, text: scanned.text, method: "ocr", confidence: scanned.confidence }
+        : { page: number, text, method: "text", confidence });
+      page.cleanup();
+    }
+  } finally {
+    await worker?.terminate();
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+/** Reads photos or scanned images with in-browser OCR, one page per image, in order. */
+export const extractImageText = async (images: (Blob | HTMLCanvasElement)[], onProgress?: (progress: ExtractionProgress) => void): Promise<ExtractedPage[]> => {
+  const worker = await createOcrWorker();
+  const pages: ExtractedPage[] = [];
+  try {
+    for (const [index, image] of images.entries()) {
+      onProgress?.({ page: index + 1, total: images.length, method: "ocr" });
+      const { text, confidence } = await ocr(worker, image);
+      pages.push({ page: index + 1, text, method: "ocr", confidence });
+    }
+  } finally {
+    await worker.terminate();
+  }
+  return pages;
+};
+
+/** One page of an extracted document as a base64 image, for reading it with the AI provider. */
+export const pageImage = async (source: ExtractionReport["source"], pageNumber: number): Promise<{ data: string; mimeType: string }> => {
+  if (source.kind === "image") return { data: source.data, mimeType: source.mimeType };
+  if (source.kind === "capture") return { data: source.images[pageNumber - 1], mimeType: "image/jpeg" };
+  const pdf = await loadPdf(source.data);
+  try {
+    const canvas = await renderPage(await pdf.getPage(pageNumber), OCR_SCALE);
+    return { data: canvas.toDataURL("image/jpeg", 0.9).split(",")[1], mimeType: "image/jpeg" };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * The document text: pages in order, separated by blank lines. Captured pages each
+ * open with a page-break marker, so rows of the comparison lead back to their photo.
+ */
+export const documentText = (report: ExtractionReport): string =>
+  report.source.kind === "capture"
+    ? report.pages.map(page => `${pageBreakMarker(page.page)}\n${page.text.trim()}`).join("\n\n")
+    : report.pages.map(page => page.text.trim()).filter(Boolean).join("\n\n");
@@ -0,0 +1,92 @@
+import { Matter } from "../types";
+
+const DB_NAME = "lexidiff";
+const DB_VERSION = 1;
+const STORE = "matters";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createEmptyMatter = (name: string): Matter => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    doc1: "",
+    doc2: "",
+    alignedRows: [],
+    smartExplanations: {},
+    analysis: null,
+    comments: [],
+    caseNotes: "",
+    history: [],
+  };
+};
+
+export const listMatters = async (): Promise<Matter[]> => {
+  const matters = await run<Matter[]>("readonly", store => store.getAll());
+  return matters.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getMatter = (id: string): Promise<Matter | undefined> =>
+  run<Matter | undefined>("readonly", store => store.get(id));
+
+// API keys are held in memory for the session and never written with a matter.
+const withoutApiKey = (matter: Matter): Matter => {
+  if (!matter.llm?.apiKey) return matter;
+  const { apiKey: _apiKey, ...llm } = matter.llm;
+  return { ...matter, llm };
+};
+
+export const saveMatter = async (matter: Matter): Promise<void> => {
+  await run("readwrite", store => store.put(withoutApiKey(matter)));
+};
+
+export const deleteMatter = async (id: string): Promise<void> => {
+  await run("readwrite", store => store.delete(id));
+};
+
+export const duplicateMatter = async (id: string): Promise<Matter> => {
+  const source = await getMatter(id);
+  if (!source) throw new Error("The matter to duplicate no longer exists.");
+  const now = Date.now();
+  const copy: Matter = {
+    ...structuredClone(withoutApiKey(source)),
+    id: crypto.randomUUID(),
+    name: `${source.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveMatter(copy);
+  return copy;
+};
@@ -0,0 +1,162 @@
+import { AlignedRow, KeyChange, LegalAnalysis } from "../types";
+import { sha256 } from "../utils/hash";
+
+export interface ReviewReportInput {
+  matterName: string;
+  reviewer: string;
+  documents: { name: string; text: string }[]; // [original, revised]
+  rows: AlignedRow[];
+  smartExplanations: Record<number, string>;
+  analysis: LegalAnalysis | null;
+  caseNotes: string;
+  generatedAt?: Date;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #0f172a; max-width: 52rem; margin: 2.5rem auto; padding: 0 1.5rem; line-height: 1.6; }
+  h1 { font-size: 1.9rem; margin: 0 0 .25rem; }
+  h2 { font-family: Inter, Arial, sans-serif; font-size: .7rem; letter-spacing: .2em; text-transform: uppercase; color: #64748b; margin: 2.5rem 0 1rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .5rem; }
+  .sub { color: #64748b; margin: 0 0 1.5rem; }
+  table.meta { border-collapse: collapse; width: 100%; font-family: Inter, Arial, sans-serif; font-size: .8rem; }
+  table.meta th, table.meta td { text-align: left; padding: .4rem .6rem; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  table.meta th { color: #64748b; font-weight: 600; width: 9rem; }
+  code { font-family: 'SFMono-Regular', Menlo, monospace; font-size: .7rem; word-break: break-all; }
+  .risk { display: inline-block; padding: .2rem .8rem; border-radius: 999px; font-family: Inter, Arial, sans-serif; font-size: .75rem; font-weight: 700; }
+  .risk-Low { background: #ecfdf5; color: #065f46; } .risk-Medium { background: #fffbeb; color: #92400e; } .risk-High { background: #fff1f2; color: #9f1239; }
+  .change { border: 1px solid #e2e8f0; border-radius: .75rem; padding: 1rem 1.25rem; margin-bottom: .75rem; break-inside: avoid; }
+  .change h3 { margin: 0 0 .25rem; font-size: 1rem; display: flex; justify-content: space-between; gap: 1rem; }
+  .impact { font-family: Inter, Arial, sans-serif; font-size: .7rem; font-weight: 700; text-transform: uppercase; letter-spacing: .1em; }
+  .impact-positive { color: #059669; } .impact-negative { color: #e11d48; } .impact-neutral { color: #64748b; }
+  .bar { height: .35rem; background: #f1f5f9; border-radius: 999px; overflow: hidden; margin-top: .5rem; }
+  .bar span { display: block; height: 100%; }
+  .redline { white-space: pre-wrap; font-size: .95rem; }
+  del { color: #be123c; text-decoration-thickness: 2px; }
+  ins { color: #047857; text-decoration-thickness: 2px; text-underline-offset: 3px; }
+  .moved { color: #0369a1; text-decoration-style: double; }
+  .ignored { color: #cbd5e1; font-style: italic; }
+  sup { font-family: Inter, Arial, sans-serif; font-size: .6rem; font-weight: 700; color: #4f46e5; }
+  ol.notes { font-size: .85rem; color: #334155; } ol.notes li { margin-bottom: .35rem; }
+  .notes-text { white-space: pre-wrap; background: #f8fafc; border-radius: .75rem; padding: 1rem 1.25rem; }
+  footer { margin-top: 3rem; font-family: Inter, Arial, sans-serif; font-size: .7rem; color: #94a3b8; }
+  @media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } del, ins, .risk, .bar span { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+`;
+
+const riskColor = (score: number) => (score > 7 ? "#f43f5e" : score > 4 ? "#f59e0b" : "#4f46e5");
+
+// Findings are model output, so what goes into markup is pinned to the values it can take.
+const IMPACT_LABELS: Record<KeyChange["impact"], string> = { positive: "Favorable", negative: "Unfavorable", neutral: "Neutral" };
+const impactOf = (impact: unknown): KeyChange["impact"] => (impact === "positive" || impact === "negative" ? impact : "neutral");
+const scoreOf = (score: unknown) => {
+  const value = Math.round(Number(score));
+  return Number.isFinite(value) ? Math.max(0, Math.min(10, value)) : 0;
+};
+
+function renderRedline(rows: AlignedRow[], smartExplanations: Record<number, string>): { html: string; notes: string[] } {
+  const notes: string[] = [];
+  const html = rows.map((row, index) => {
+    let segment: string;
+    if (row.ignored) {
+      // Ignored boilerplate comes as a left-only and a right-only row; print it once, as it now stands.
+      if (!row.right) return "";
+      segment = `<span class="ignored">${escapeHtml(row.right.value)}</span>`;
+    } else if (row.move) {
+      segment = row.move.role === "source"
+        ? `<del class="moved">${escapeHtml(row.left?.value ?? "")}</del>`
+        : `<ins class="moved">${escapeHtml(row.right?.value ?? "")}</ins>`;
+    } else {
+      const removed = row.left?.type === "removed" ? `<del>${escapeHtml(row.left.value)}</del>` : "";
+      const added = row.right?.type === "added" ? `<ins>${escapeHtml(row.right.value)}</ins>` : "";
+      segment = removed || added ? removed + added : escapeHtml(row.left?.value ?? row.right?.value ?? "");
+      if (row.numericChange) segment += `<sup>${escapeHtml(row.numericChange.delta)}</sup>`;
+    }
+    const insight = smartExplanations[index];
+    if (insight) {
+      notes.push(insight);
+      segment += `<sup>[${notes.length}]</sup>`;
+    }
+    return segment;
+  }).join("");
+  return { html, notes };
+}
+
+/**
+ * Builds a self-contained HTML review report (no external assets) for filing in the
+ * client's matter folder: document metadata with SHA-256 fingerprints of the
+ * compared texts, the Deep Legal Report, the redline with its AI insights and the
+ * case notes. Print it from a browser to obtain the PDF version.
+ */
+export const buildReviewReport = async (input: ReviewReportInput): Promise<string> => {
+  const generatedAt = input.generatedAt ?? new Date();
+  const hashes = await Promise.all(input.documents.map(d => sha256(d.text)));
+  const { html: redline, notes } = renderRedline(input.rows, input.smartExplanations);
+  const analysis = input.analysis;
+
+  const metaRows = [
+    ["Matter", escapeHtml(input.matterName)],
+    ["Reviewer", escapeHtml(input.reviewer)],
+    ["Generated", escapeHtml(generatedAt.toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" }))],
+    ...input.documents.map((d, i) => [
+      i === 0 ? "Original" : "Revised",
+      `${escapeHtml(d.name)}<br><code>SHA-256 ${hashes[i]}</code>`,
+    ]),
+  ];
+
+  const analysisHtml = analysis ? `
+<h2>Executive Summary</h2>
+<p><span class="risk risk-${escapeHtml(analysis.riskAssessment.level)}">${escapeHtml(analysis.riskAssessment.level)} Risk Profile</span>
+${analysis.contractType ? ` &nbsp;${escapeHtml(analysis.contractType)}` : ""}</p>
+<p>${escapeHtml(analysis.summary)}</p>
+
+<h2>Key Variance Indicators</h2>
+${analysis.keyChanges.map(item => {
+  const impact = impactOf(item.impact);
+  const score = scoreOf(item.riskScore);
+  return `<div class="change">
+  <h3><span>${escapeHtml(item.clause)}${item.unverified ? ` <span class="impact impact-neutral">Unverified</span>` : ""}</span><span class="impact impact-${impact}">${IMPACT_LABELS[impact]}</span></h3>
+  <p>${escapeHtml(item.description)}</p>
+  ${item.clauses?.length ? `<p class="sub">Clauses: ${item.clauses.map(escapeHtml).join("; ")}</p>` : ""}
+  ${item.quoteA ? `<p><em>Version A: “${escapeHtml(item.quoteA)}”</em></p>` : ""}
+  ${item.quoteB ? `<p><em>Version B: “${escapeHtml(item.quoteB)}”</em></p>` : ""}
+  <div class="impact impact-neutral">Risk ${score}/10</div>
+  <div class="bar"><span style="width:${score * 10}%;background:${riskColor(score)}"></span></div>
+</div>`;
+}).join("")}
+
+<h2>Risk Evaluation</h2>
+<p><em>${escapeHtml(analysis.riskAssessment.explanation)}</em></p>
+
+<h2>Strategic Recommendations</h2>
+<ul>${analysis.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join("")}</ul>` : `
+<h2>Deep Legal Report</h2>
+<p class="sub">No Deep Legal Analysis was run for this comparison.</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(input.matterName)} — Review Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Comparative Review Report</h1>
+<p class="sub">${escapeHtml(input.matterName)}</p>
+
+<h2>Document Record</h2>
+<table class="meta">${metaRows.map(([k, v]) => `<tr><th>${k}</th><td>${v}</td></tr>`).join("")}</table>
+${analysisHtml}
+
+<h2>Redline</h2>
+<div class="redline">${redline}</div>
+${notes.length ? `<h2>AI Legal Insights</h2>
+<ol class="notes">${notes.map(n => `<li>${escapeHtml(n)}</li>`).join("")}</ol>` : ""}
+
+<h2>Case Notes</h2>
+${input.caseNotes.trim() ? `<div class="notes-text">${escapeHtml(input.caseNotes)}</div>` : `<p class="sub">No case notes recorded.</p>`}
+
+<footer>Generated by LexiDiff. AI-generated insights are not legal advice and must be verified against the source documents.</footer>
+</body>
+</html>`;
+};
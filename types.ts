@@ -1,7 +1,14 @@
 
 export interface DiffChange {
-  type: 'added' | 'removed' | 'unchanged';
+  type: 'added' | 'removed' | 'unchanged' | 'moved';
   value: string;
+  segments?: DiffChange[]; // character-level breakdown of a paired replacement
+}
+
+export interface NumericChange {
+  was: string;
+  now: string;
+  delta: string; // e.g. "+30%", "+12 months"
 }
 
 export interface DiffExplanation {
@@ -9,10 +16,65 @@ export interface DiffExplanation {
   explanation: string;
 }
 
+export interface MoveLink {
+  id: number; // shared by both ends of the move
+  role: 'source' | 'destination';
+  counterpart: number; // row index of the other end
+  similarity: number; // 1 when the block moved verbatim
+  edits?: DiffChange[]; // destination only: word changes made to the block while moving it
+}
+
 export interface AlignedRow {
   left: DiffChange | null;
   right: DiffChange | null;
   explanation?: string;
+  clausePath?: string[]; // enclosing clause labels, outermost first, e.g. ["§4 LIABILITY"]
+  move?: MoveLink;
+  numericChange?: NumericChange; // set on the added half of a replaced amount, duration or date
+  ignored?: boolean; // one-sided text excluded from comparison by the normalisation settings
+}
+
+// Marker shown under a row of the comparison.
+export interface RowFlag {
+  // a broken playbook rule; a row indirectly affected by a changed definition; a broken cross-reference
+  kind: 'playbook' | 'definition' | 'reference';
+  label: string;
+}
+
+export interface ComparisonSettings {
+  ignoreWhitespace: boolean; // includes line breaks and re-wrapped lines
+  ignoreCase: boolean;
+  normalizePunctuation: boolean; // smart quotes, dashes, non-breaking spaces
+  ignoreNumbering: boolean; // automatic list numbering at the start of a line
+  ignoreHeadersFooters: boolean; // running headers/footers and page numbers
+  ignorePatterns: string[]; // user-defined regular expressions
+}
+
+export type ThreeWayOrigin = 'unchanged' | 'ours' | 'theirs' | 'both';
+
+export interface ThreeWayRegion {
+  origin: ThreeWayOrigin;
+  base: string; // common ancestor: our last sent draft
+  ours: string;
+  theirs: string;
+  identical?: boolean; // 'both' regions where the two sides made the same edit (no conflict)
+  clausePath?: string[];
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderId; // 'openai': any OpenAI-compatible endpoint, e.g. a self-hosted model
+  model?: string; // used for analysis and explanations
+  fastModel?: string; // used for text extraction; defaults to `model`
+  endpoint?: string; // base URL of an OpenAI-compatible API, e.g. http://localhost:8000/v1
+  apiKey?: string; // held for the session only, never saved with a matter
+}
+
+export interface CommentAnchor {
+  left: string;
+  right: string;
+  context: string; // unchanged text immediately preceding the row
 }
 
 export interface UserComment {
@@ -21,22 +83,90 @@ export interface UserComment {
   text: string;
   author: string;
   timestamp: number;
+  parentId?: string; // replies point at the thread's root comment
+  resolved?: boolean; // only meaningful on the root comment
+  anchor?: CommentAnchor;
+  orphaned?: boolean; // anchor text could not be found after a re-compare
+  importedFrom?: string; // file name, for comments carried over from a Word document
+}
+
+export interface ImportedComment {
+  id: string; // Word's w:id
+  parentId?: string; // Word id of the comment this one replies to
+  author: string;
+  timestamp: number;
+  text: string;
+  resolved: boolean;
+  offset: number; // character offset of the commented range in the imported text
+  quote: string; // the commented text
+}
+
+export interface KeyChange {
+  clause: string;
+  impact: 'positive' | 'negative' | 'neutral';
+  description: string;
+  riskScore: number; // 1-10
+  clauses?: string[]; // clause paths the finding draws on, e.g. "§4 LIABILITY › 4.2"
+  rows?: number[]; // indices into the aligned rows of the comparison it was based on
+  quoteA?: string; // excerpt of Version A the finding cites
+  quoteB?: string; // excerpt of Version B the finding cites
+  unverified?: boolean; // no quote, or a quote that appears in neither document
 }
 
 export interface LegalAnalysis {
   summary: string;
-  keyChanges: {
-    clause: string;
-    impact: 'positive' | 'negative' | 'neutral';
-    description: string;
-    riskScore: number; // 1-10
-  }[];
+  keyChanges: KeyChange[];
   riskAssessment: {
     level: 'Low' | 'Medium' | 'High';
     explanation: string;
   };
   recommendations: string[];
   contractType?: string;
+  basedOn?: { doc1: string; doc2: string }; // the documents of the comparison whose rows the findings cite
+}
+
+export type ViewMode = 'split' | 'unified' | 'threeway' | 'terms' | 'analysis';
+
+export interface MatterSnapshot {
+  doc1: string;
+  doc2: string;
+  comparedAt: number;
 }
 
-export type ViewMode = 'split' | 'unified' | 'analysis';
+export interface DocumentVersion {
+  id: string;
+  label: string; // e.g. "Round 3"
+  party: string; // who introduced this version, e.g. "Counterparty"
+  text: string;
+  addedAt: number;
+  analysis?: LegalAnalysis; // Deep Legal Analysis of the changes from the previous version
+}
+
+// Reviewer's decision on one change of the comparison, keyed by the change's first row.
+export interface ChangeDecision {
+  state: 'accepted' | 'rejected' | 'countered';
+  text?: string; // our counter-wording, replacing the change
+}
+
+export interface Matter {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  doc1: string;
+  doc2: string;
+  alignedRows: AlignedRow[];
+  smartExplanations: Record<number, string>;
+  analysis: LegalAnalysis | null;
+  comments: UserComment[];
+  caseNotes: string;
+  history: MatterSnapshot[]; // document versions as of the latest comparisons, oldest first
+  settings?: ComparisonSettings;
+  docNames?: [string, string]; // source file names of Document A / B
+  base?: string; // common ancestor for three-way mode; Document A is then our draft, B the counterparty's
+  threeWay?: ThreeWayRegion[];
+  threeWayExplanations?: Record<number, string>; // by region index, counterparty changes only
+  versions?: DocumentVersion[]; // negotiation rounds, oldest first
+  llm?: LLMSettings; // AI provider for this matter; Gemini when absent
+  decisions?: Record<number, ChangeDecision>; // accept / reject review of the current comparison
+}
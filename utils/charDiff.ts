@@ -0,0 +1,127 @@
+import { AlignedRow, DiffChange, NumericChange } from '../types';
+import { patienceDiff } from './sequenceDiff';
+import { withoutClauseNumbers } from './normalize';
+
+const MAX_PAIR_LENGTH = 240;
+const MIN_SHARED_RATIO = 0.3;
+
+const codes = (text: string) => Int32Array.from(text, c => c.codePointAt(0)!);
+
+/**
+ * Character diff of a replaced passage, returned as the segments of each side.
+ * Returns null when the two sides share too little to make highlighting useful,
+ * e.g. "California" → "Delaware" still benefits, an unrelated sentence does not.
+ */
+function characterSegments(before: string, after: string): { left: DiffChange[]; right: DiffChange[] } | null {
+  const chars1 = Array.from(before);
+  const chars2 = Array.from(after);
+  const ops = patienceDiff(codes(before), codes(after));
+  const shared = ops.filter(op => op.type === 'equal').length;
+  if (shared / Math.max(chars1.length, chars2.length) < MIN_SHARED_RATIO) return null;
+
+  const left: DiffChange[] = [];
+  const right: DiffChange[] = [];
+  const push = (list: DiffChange[], type: DiffChange['type'], value: string) => {
+    const last = list[list.length - 1];
+    if (last && last.type === type) last.value += value;
+    else list.push({ type, value });
+  };
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      push(left, 'unchanged', chars1[op.a]);
+      push(right, 'unchanged', chars2[op.b]);
+    } else if (op.type === 'delete') {
+      push(left, 'removed', chars1[op.a]);
+    } else {
+      push(right, 'added', chars2[op.b]);
+    }
+  }
+  return { left, right };
+}
+
+const NUMBER_RE = /([$€£]?)\s?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s?(%|percent\b)?/gi;
+const DURATION_RE = /^\s*\(?\d*\)?\s*(business\s+days?|calendar\s+days?|days?|weeks?|months?|years?)\b/i;
+
+interface ParsedNumber {
+  raw: string;
+  value: number;
+  currency: string;
+  percent: boolean;
+}
+
+function parseSingleNumber(text: string): ParsedNumber | null {
+  const matches = [...text.matchAll(NUMBER_RE)];
+  if (matches.length !== 1) return null;
+  const [raw, currency, whole, fraction, percent] = matches[0];
+  return {
+    raw: raw.trim(),
+    value: parseFloat(whole.replace(/,/g, '') + (fraction ?? '')),
+    currency,
+    percent: Boolean(percent),
+  };
+}
+
+const signed = (n: number, digits = 0) => `${n > 0 ? '+' : n < 0 ? '−' : '±'}${Math.abs(n).toLocaleString(undefined, { maximumFractionDigits: digits })}`;
+
+/**
+ * Describes how a number changed: durations by the difference in their unit,
+ * percentages in points and amounts by relative change.
+ */
+export function describeNumericChange(before: string, after: string, following = ''): NumericChange | null {
+  const was = parseSingleNumber(before);
+  const now = parseSingleNumber(after);
+  if (!was || !now || was.value === now.value || was.currency !== now.currency || was.percent !== now.percent) return null;
+
+  const unit = DURATION_RE.exec(after.slice(after.indexOf(now.raw) + now.raw.length) || following)?.[1];
+  let delta: string;
+  if (unit) {
+    delta = `${signed(now.value - was.value)} ${unit.toLowerCase()}`;
+  } else if (was.percent) {
+    delta = `${signed(now.value - was.value, 2)} pts`;
+  } else if (was.value !== 0) {
+    delta = `${signed(((now.value - was.value) / was.value) * 100, 1)}%`;
+  } else {
+    return null;
+  }
+  return { was: was.raw, now: now.raw, delta };
+}
+
+/** Whether the text of `side` in row `index` begins a line of its document. */
+export function startsLine(rows: AlignedRow[], index: number, side: 'left' | 'right'): boolean {
+  for (let i = index - 1; i >= 0; i--) {
+    const value = rows[i][side]?.value;
+    if (value) return value.endsWith('\n');
+  }
+  return true;
+}
+
+/**
+ * Adds character-level segments to each removed row directly followed by the added
+ * row that replaces it, and a numeric "was → now" summary where both are numbers.
+ * Clause numbers are left out of the summary: an inserted clause renumbers the ones
+ * after it, which is not a change in any amount.
+ */
+export function annotateCharacterChanges(rows: AlignedRow[]): void {
+  for (let i = 0; i + 1 < rows.length; i++) {
+    const removed = rows[i];
+    const added = rows[i + 1];
+    if (removed.left?.type !== 'removed' || removed.right || added.left || added.right?.type !== 'added') continue;
+
+    const before = removed.left.value;
+    const after = added.right.value;
+    if (before.length > MAX_PAIR_LENGTH || after.length > MAX_PAIR_LENGTH) continue;
+
+    const segments = characterSegments(before, after);
+    if (segments) {
+      removed.left = { ...removed.left, segments: segments.left };
+      added.right = { ...added.right, segments: segments.right };
+    }
+
+    const numeric = describeNumericChange(
+      withoutClauseNumbers(before, startsLine(rows, i, 'left')),
+      withoutClauseNumbers(after, startsLine(rows, i + 1, 'right')),
+      rows[i + 2]?.right?.value
+    );
+    if (numeric) added.numericChange = numeric;
+  }
+}
@@ -0,0 +1,131 @@
+export type ClauseKind = 'preamble' | 'article' | 'heading' | 'numbered' | 'lettered' | 'roman';
+
+export interface Clause {
+  kind: ClauseKind;
+  number: string; // normalised numbering, e.g. "IV", "2.1", "a"; empty for headings and preamble
+  heading: string; // ALL-CAPS or title heading text, if any
+  level: number;
+  label: string; // display label, e.g. "§4 LIABILITY"
+  path: string[]; // labels from the outermost enclosing clause down to this one
+  text: string; // exact source text, including trailing line breaks
+  children: Clause[];
+}
+
+const ARTICLE_RE = /^\s*(?:ARTICLE|Article|SECTION|Section)\s+([IVXLC]+|\d+)\b[.:\s-]*(.*)$/;
+const NUMBERED_RE = /^\s*(\d+(?:\.\d+)*)([.)]?)\s+(.*)$/;
+const PAREN_RE = /^\s*\(([a-z]{1,2}|[ivx]+)\)\s+(.*)$/;
+const INLINE_HEADING_RE = /^([A-Z][A-Z0-9 &/,'-]*[A-Z])(?:\.|:|$)/;
+
+const isAllCapsHeading = (line: string) => {
+  const trimmed = line.trim();
+  return trimmed.length >= 3 && trimmed.length <= 80 && /[A-Z]{2}/.test(trimmed) && !/[a-z]/.test(trimmed);
+};
+
+const isRoman = (value: string) => /^[ivx]+$/.test(value);
+
+interface Marker {
+  kind: ClauseKind;
+  number: string;
+  heading: string;
+  level: number;
+}
+
+const LETTERED_LEVEL = 100;
+const ROMAN_LEVEL = 101;
+
+/**
+ * Recognises the numbering or heading at the start of a line. Articles and
+ * stand-alone headings sit at the top, decimal numbering nests by its depth, and
+ * lettered / roman sub-clauses always nest below whatever encloses them.
+ */
+function detectMarker(line: string, enclosing: Clause | undefined): Marker | null {
+  let match = ARTICLE_RE.exec(line);
+  if (match) {
+    const rest = match[2].trim();
+    return { kind: 'article', number: match[1].toUpperCase(), heading: rest && isAllCapsHeading(rest) ? rest : '', level: 0 };
+  }
+
+  match = NUMBERED_RE.exec(line);
+  // A bare number ("30 days ...") is only a clause when punctuated ("3.") or multi-level ("2.1").
+  const segments = match?.[1].split('.') ?? [];
+  if (match && (match[2] || segments.length > 1) && segments.every(n => n.length <= 3)) {
+    const heading = INLINE_HEADING_RE.exec(match[3].trim())?.[1] ?? '';
+    return { kind: 'numbered', number: match[1], heading, level: segments.length };
+  }
+
+  match = PAREN_RE.exec(line);
+  if (match) {
+    // "(i)" is ambiguous: roman under a lettered clause, except straight after "(h)".
+    const nested = enclosing?.kind === 'lettered' || enclosing?.kind === 'roman';
+    const nextLetter = enclosing?.kind === 'lettered' && enclosing.number === 'h' && match[1] === 'i';
+    const roman = isRoman(match[1]) && nested && !nextLetter;
+    return { kind: roman ? 'roman' : 'lettered', number: match[1], heading: '', level: roman ? ROMAN_LEVEL : LETTERED_LEVEL };
+  }
+
+  if (isAllCapsHeading(line)) {
+    return { kind: 'heading', number: '', heading: line.trim(), level: 0 };
+  }
+
+  return null;
+}
+
+const labelFor = (marker: Marker): string => {
+  switch (marker.kind) {
+    case 'article': return `Article ${marker.number}${marker.heading ? ` ${marker.heading}` : ''}`;
+    case 'numbered': return `§${marker.number}${marker.heading ? ` ${marker.heading}` : ''}`;
+    case 'lettered':
+    case 'roman': return `(${marker.number})`;
+    default: return marker.heading;
+  }
+};
+
+/**
+ * Splits a contract into clauses by its legal numbering and headings. Returns the
+ * clauses in document order; nesting is available through `children` and `path`.
+ * Concatenating every clause's `text` reproduces the input exactly. Lines for which
+ * `isIgnoredLine` holds (running headers, page numbers) never start a clause.
+ */
+export function parseClauses(text: string, isIgnoredLine: (line: string) => boolean = () => false): Clause[] {
+  const lines = text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const clauses: Clause[] = [];
+  const stack: Clause[] = [];
+  let current: Clause = {
+    kind: 'preamble', number: '', heading: '', level: -1, label: '', path: [], text: '', children: []
+  };
+  clauses.push(current);
+
+  for (const line of lines) {
+    const marker = line.trim() && !isIgnoredLine(line) ? detectMarker(line.replace(/\r?\n$/, ''), stack[stack.length - 1]) : null;
+    if (!marker) {
+      current.text += line;
+      continue;
+    }
+
+    while (stack.length && stack[stack.length - 1].level >= marker.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    const label = labelFor(marker);
+    current = {
+      ...marker,
+      label,
+      path: [...(parent?.path ?? []), label],
+      text: line,
+      children: [],
+    };
+    parent?.children.push(current);
+    stack.push(current);
+    clauses.push(current);
+  }
+
+  if (!clauses[0].text) clauses.shift();
+  return clauses;
+}
+
+/**
+ * Key used to recognise the same clause across versions: the heading when there is
+ * one (survives renumbering), otherwise the numbering path.
+ */
+export function clauseKey(clause: Clause): string {
+  if (clause.kind === 'preamble') return 'preamble';
+  if (clause.heading) return `h:${clause.heading.toUpperCase()}`;
+  return `n:${clause.path.map(p => p.split(' ')[0]).join('/')}`;
+}
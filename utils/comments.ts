@@ -0,0 +1,144 @@
+import { AlignedRow, CommentAnchor, ImportedComment, UserComment } from '../types';
+import { createRowLocator } from './diff';
+
+const CONTEXT_LENGTH = 80;
+const MATCH_THRESHOLD = 0.6;
+
+/**
+ * Captures the text of a row (plus the unchanged text leading into it) so the
+ * comment can be found again after the documents are edited and re-compared.
+ */
+export function createAnchor(rows: AlignedRow[], index: number): CommentAnchor {
+  const row = rows[index];
+  let context = '';
+  for (let k = index - 1; k >= 0 && context.length < CONTEXT_LENGTH; k--) {
+    const prev = rows[k];
+    if (prev.left?.type === 'unchanged') context = prev.left.value + context;
+  }
+  return {
+    left: row?.left?.value ?? '',
+    right: row?.right?.value ?? '',
+    context: context.slice(-CONTEXT_LENGTH),
+  };
+}
+
+const tokenize = (text: string) => text.toLowerCase().split(/\s+/).filter(Boolean);
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.length === 0 || tb.length === 0) return ta.length === tb.length ? 1 : 0;
+  const setB = new Set(tb);
+  const shared = ta.filter(t => setB.has(t)).length;
+  return (2 * shared) / (ta.length + tb.length);
+}
+
+function scoreRow(anchor: CommentAnchor, rows: AlignedRow[], index: number): number {
+  const candidate = createAnchor(rows, index);
+  const text = (similarity(anchor.left, candidate.left) + similarity(anchor.right, candidate.right)) / 2;
+  const context = similarity(anchor.context, candidate.context);
+  return text * 0.8 + context * 0.2;
+}
+
+/**
+ * Moves comment threads onto the rows of a fresh comparison. Each thread root is
+ * matched by its anchor text, ties broken by proximity to its previous position;
+ * replies follow their root. Threads whose change disappeared are kept but marked
+ * orphaned so no reviewer discussion is silently lost.
+ */
+export function reanchorComments(comments: UserComment[], rows: AlignedRow[]): UserComment[] {
+  if (rows.length === 0) return comments;
+
+  const placement = new Map<string, { diffIndex: number; orphaned: boolean }>();
+
+  for (const comment of comments) {
+    if (comment.parentId) continue;
+    if (!comment.anchor) {
+      placement.set(comment.id, { diffIndex: Math.min(comment.diffIndex, rows.length - 1), orphaned: false });
+      continue;
+    }
+
+    let best = -1;
+    let bestScore = 0;
+    for (let idx = 0; idx < rows.length; idx++) {
+      const distancePenalty = Math.abs(idx - comment.diffIndex) / (rows.length * 100);
+      const score = scoreRow(comment.anchor, rows, idx) - distancePenalty;
+      if (score > bestScore) {
+        bestScore = score;
+        best = idx;
+      }
+    }
+
+    placement.set(
+      comment.id,
+      best >= 0 && bestScore >= MATCH_THRESHOLD
+        ? { diffIndex: best, orphaned: false }
+        : { diffIndex: Math.min(comment.diffIndex, rows.length - 1), orphaned: true }
+    );
+  }
+
+  return comments.map(comment => {
+    const target = placement.get(comment.parentId ?? comment.id);
+    if (!target) return comment;
+    const anchor = !comment.parentId && !target.orphaned ? createAnchor(rows, target.diffIndex) : comment.anchor;
+    return { ...comment, diffIndex: target.diffIndex, orphaned: target.orphaned, anchor };
+  });
+}
+
+export interface CommentThread {
+  root: UserComment;
+  replies: UserComment[];
+}
+
+/**
+ * Groups a flat comment list into threads keyed by the row they are attached to.
+ */
+export function groupThreads(comments: UserComment[]): Record<number, CommentThread[]> {
+  const threads: Record<number, CommentThread[]> = {};
+  const byId = new Map<string, CommentThread>();
+
+  for (const comment of comments) {
+    if (comment.parentId) continue;
+    const thread = { root: comment, replies: [] };
+    byId.set(comment.id, thread);
+    (threads[comment.diffIndex] ??= []).push(thread);
+  }
+  for (const comment of comments) {
+    if (!comment.parentId) continue;
+    byId.get(comment.parentId)?.replies.push(comment);
+  }
+  for (const thread of byId.values()) {
+    thread.replies.sort((a, b) => a.timestamp - b.timestamp);
+  }
+  return threads;
+}
+
+/**
+ * Turns comments embedded in an imported Word document into review threads on the
+ * rows of a comparison. `side` is the column the document was loaded into; each
+ * comment lands on the row covering the start of its commented text.
+ */
+export function placeImportedComments(
+  imported: ImportedComment[],
+  rows: AlignedRow[],
+  side: 'left' | 'right',
+  fileName: string
+): UserComment[] {
+  const rowAt = createRowLocator(rows, side);
+
+  const ids = new Map(imported.map(c => [c.id, crypto.randomUUID()]));
+  return imported.map(comment => {
+    const diffIndex = rowAt(comment.offset);
+    const parentId = comment.parentId ? ids.get(comment.parentId) : undefined;
+    return {
+      id: ids.get(comment.id)!,
+      diffIndex,
+      text: comment.text,
+      author: comment.author,
+      timestamp: comment.timestamp,
+      importedFrom: fileName,
+      ...(parentId ? { parentId } : { anchor: createAnchor(rows, diffIndex), resolved: comment.resolved }),
+    };
+  });
+}
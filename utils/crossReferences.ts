@@ -0,0 +1,178 @@
+import { AlignedRow } from '../types';
+import { Clause, parseClauses } from './clauses';
+import { alignClauses, createRowLocator } from './diff';
+
+export interface CrossReferenceIssue {
+  kind: 'dangling' | 'retargeted';
+  reference: string; // as written, e.g. "Section 4.2"
+  clause: string; // label of the clause containing the reference
+  row: number; // row of the comparison showing the reference in Version B
+  message: string;
+  suggestion?: string; // the reference as it should now read, e.g. "Section 4.3"
+  introduced: boolean; // the reference resolved correctly in Version A
+}
+
+interface Reference {
+  text: string; // e.g. "Section 4.2(b)"
+  keyword: string; // e.g. "Section"
+  key: string; // e.g. "4.2(b)"
+  offset: number;
+}
+
+const NUMBER = '(?:\\d+(?:\\.\\d+)*\\.?|[IVXLC]+\\b)(?:\\s?\\((?:[a-z]{1,3}|[ivx]+|\\d+)\\))*';
+// "Section 4.2", "Clause 9(b)", "Sections 3.1 and 3.2", "§ 7"; not "Section 409A of the Code".
+const REFERENCE_RE = new RegExp(
+  `(?:\\b(?:[Ss]ections?|[Cc]lauses?|[Aa]rticles?|[Pp]aragraphs?)\\s+|§§?\\s*)(${NUMBER}(?:\\s*(?:,|\\band\\b|\\bor\\b)\\s*${NUMBER})*)(?!\\s+of\\s+(?:the\\s+)?[A-Z])`,
+  'g'
+);
+const NUMBER_RE = new RegExp(NUMBER, 'g');
+
+const normalizeKey = (number: string) => number.replace(/\s+/g, '').replace(/\.(?=\(|$)/, '').toLowerCase();
+
+function findReferences(text: string): Reference[] {
+  const references: Reference[] = [];
+  for (const match of text.matchAll(REFERENCE_RE)) {
+    // "ARTICLE IV" or "Section 5." opening a line is the clause's own heading.
+    if (/^\s*$/.test(text.slice(text.lastIndexOf('\n', match.index! - 1) + 1, match.index))) continue;
+    const listStart = match.index! + match[0].lastIndexOf(match[1]);
+    const keyword = match[0].slice(0, match[0].length - match[1].length).trim();
+    for (const number of match[1].matchAll(NUMBER_RE)) {
+      references.push({
+        keyword,
+        text: `${keyword} ${number[0].trim().replace(/\.$/, '')}`,
+        key: normalizeKey(number[0]),
+        offset: listStart + number.index!,
+      });
+    }
+  }
+  return references;
+}
+
+interface Numbering {
+  clauses: Clause[];
+  byKey: Map<string, Clause>;
+  keyOf: Map<Clause, string>;
+  starts: number[]; // offset of each clause in the document
+}
+
+/**
+ * Indexes a document's clauses by the way references cite them: "4.2" for numbered
+ * clauses, "iv" for articles and "9(b)(ii)" for lettered and roman sub-clauses.
+ */
+function numberClauses(text: string): Numbering {
+  const clauses = parseClauses(text);
+  const byKey = new Map<string, Clause>();
+  const keyOf = new Map<Clause, string>();
+  const parents = new Map<Clause, Clause>();
+  for (const clause of clauses) for (const child of clause.children) parents.set(child, clause);
+
+  const starts: number[] = [];
+  let offset = 0;
+  for (const clause of clauses) {
+    starts.push(offset);
+    offset += clause.text.length;
+    if (!clause.number) continue;
+    const parentKey = parents.has(clause) ? keyOf.get(parents.get(clause)!) ?? '' : '';
+    const key = clause.kind === 'lettered' || clause.kind === 'roman'
+      ? `${parentKey}(${clause.number})`
+      : normalizeKey(clause.number);
+    keyOf.set(clause, key);
+    if (!byKey.has(key)) byKey.set(key, clause);
+  }
+  return { clauses, byKey, keyOf, starts };
+}
+
+/**
+ * The clause a reference points to. "9(b)" falls back to §9 when the sub-clauses of
+ * §9 run inline instead of on lines of their own, so they were never parsed.
+ */
+function resolve(key: string, numbering: Numbering): Clause | null {
+  const exact = numbering.byKey.get(key);
+  if (exact) return exact;
+  const parentKey = key.replace(/\([^)]*\)$/, '');
+  if (parentKey === key) return null;
+  const parent = resolve(parentKey, numbering);
+  return parent && parent.children.length === 0 ? parent : null;
+}
+
+const describe = (clause: Clause) => clause.label || 'the preamble';
+
+// How the reference should read to reach `clause` in Version B.
+const citeAs = (reference: Reference, clause: Clause | undefined, numbering: Numbering) => {
+  const key = clause && numbering.keyOf.get(clause);
+  if (!key) return undefined;
+  return `${reference.keyword} ${clause!.kind === 'article' ? clause!.number : key}`;
+};
+
+/**
+ * Checks every internal cross-reference of Version B against its numbering. A
+ * reference is dangling when no clause carries its number, and retargeted when the
+ * word diff shows the same reference in unchanged text of Version A but the clause
+ * it pointed to there now has a different number, e.g. after a clause was inserted.
+ */
+export function checkCrossReferences(text1: string, text2: string, rows: AlignedRow[]): CrossReferenceIssue[] {
+  const numberingA = numberClauses(text1);
+  const numberingB = numberClauses(text2);
+  const referencesA = findReferences(text1);
+  const referencesB = findReferences(text2);
+
+  const counterpart = new Map<Clause, Clause>();
+  for (const { left, right } of alignClauses(numberingA.clauses, numberingB.clauses)) {
+    if (left && right) counterpart.set(left, right);
+  }
+
+  const rowStartsA: number[] = [];
+  const rowStartsB: number[] = [];
+  rows.reduce(([a, b], row) => {
+    rowStartsA.push(a);
+    rowStartsB.push(b);
+    return [a + (row.left?.value.length ?? 0), b + (row.right?.value.length ?? 0)];
+  }, [0, 0]);
+  const rowB = createRowLocator(rows, 'right');
+  const clauseAt = (numbering: Numbering, offset: number) => {
+    let index = 0;
+    while (index + 1 < numbering.starts.length && numbering.starts[index + 1] <= offset) index++;
+    return numbering.clauses[index];
+  };
+
+  // The same reference in Version A, if it sits in text the diff found unchanged.
+  const previous = (reference: Reference, row: number): Reference | undefined => {
+    const { left, right } = rows[row];
+    if (left?.type !== 'unchanged' || right?.type !== 'unchanged') return undefined;
+    const expected = rowStartsA[row] + (reference.offset - rowStartsB[row]);
+    return referencesA
+      .filter(candidate => candidate.key === reference.key && Math.abs(candidate.offset - expected) <= 10)
+      .sort((x, y) => Math.abs(x.offset - expected) - Math.abs(y.offset - expected))[0];
+  };
+
+  const issues: CrossReferenceIssue[] = [];
+  for (const reference of referencesB) {
+    const row = rowB(reference.offset);
+    const target = resolve(reference.key, numberingB);
+    const before = previous(reference, row);
+    const targetBefore = before ? resolve(before.key, numberingA) : null;
+    const intended = targetBefore ? counterpart.get(targetBefore) : undefined;
+    const base = { reference: reference.text, clause: clauseAt(numberingB, reference.offset)?.label ?? '', row };
+
+    if (!target) {
+      issues.push({
+        ...base,
+        kind: 'dangling',
+        message: `${reference.text} does not exist in the revised draft${targetBefore ? ` (it pointed to ${describe(targetBefore)})` : ''}.`,
+        suggestion: citeAs(reference, intended, numberingB),
+        introduced: !!targetBefore || !before && !!resolve(reference.key, numberingA),
+      });
+    } else if (targetBefore && intended !== target) {
+      issues.push({
+        ...base,
+        kind: 'retargeted',
+        message: intended
+          ? `${reference.text} pointed to ${describe(targetBefore)}, which is now ${describe(intended)}; it now points to ${describe(target)}.`
+          : `${reference.text} pointed to ${describe(targetBefore)}, which was deleted; it now points to ${describe(target)}.`,
+        suggestion: citeAs(reference, intended, numberingB),
+        introduced: true,
+      });
+    }
+  }
+  return issues;
+}
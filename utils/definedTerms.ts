@@ -0,0 +1,147 @@
+import { AlignedRow } from '../types';
+import { Clause, parseClauses } from './clauses';
+import { createRowLocator } from './diff';
+
+export type DefinedTermStatus = 'changed' | 'added' | 'removed' | 'undefined' | 'unchanged';
+
+export interface DefinedTerm {
+  term: string;
+  status: DefinedTermStatus; // 'undefined': no longer defined in Version B but still used there
+  before?: string; // definition in Version A
+  after?: string; // definition in Version B
+  definitionRow?: number; // row showing the definition (Version B's, else Version A's)
+  usages: number; // uses in Version B outside the definition
+  affectedRows: number[]; // unchanged rows using a term whose definition changed
+}
+
+interface Definition {
+  term: string;
+  text: string;
+  start: number; // offset of the definition text
+  end: number;
+}
+
+const QUOTED = `["“]([A-Z][^"”\\n]{0,60}?)["”]`;
+const DEFINITION_SECTION_RE = /definition|interpretation/i;
+// (the "Provider"), (each, a "Party"), (hereinafter referred to as the "Services")
+const PARENTHETICAL_RE = new RegExp(`\\((?:(?:each|together|collectively|individually),?\\s+)?(?:hereinafter\\s+)?(?:referred\\s+to\\s+as\\s+)?(?:the\\s+|a\\s+|an\\s+)?${QUOTED}\\)`, 'g');
+// "Confidential Information" means ...
+const MEANS_RE = new RegExp(`${QUOTED}\\s+(?:means|shall\\s+mean|has\\s+the\\s+meaning|refers\\s+to|includes)\\b`, 'g');
+const QUOTED_RE = new RegExp(QUOTED, 'g');
+
+const lineAround = (text: string, offset: number): [number, number] => {
+  const start = text.lastIndexOf('\n', offset - 1) + 1;
+  const end = text.indexOf('\n', offset);
+  return [start, end < 0 ? text.length : end];
+};
+
+const sentenceAround = (text: string, offset: number): [number, number] => {
+  const [lineStart, lineEnd] = lineAround(text, offset);
+  const before = text.slice(lineStart, offset).search(/[.;][^.;]*$/);
+  const after = text.slice(offset, lineEnd).search(/[.;](\s|$)/);
+  return [before < 0 ? lineStart : lineStart + before + 1, after < 0 ? lineEnd : offset + after + 1];
+};
+
+// Where the definition starting at `offset` ends: before the next "Y" means ... on its
+// line, and for a `sentence` also at the first full stop.
+const definitionEnd = (text: string, offset: number, sentence: boolean) => {
+  const lineEnd = lineAround(text, offset)[1];
+  const rest = text.slice(offset, lineEnd);
+  const next = [...rest.matchAll(MEANS_RE)].find(match => match.index! > 0);
+  let end = next ? next.index! : rest.length;
+  if (sentence) {
+    const stop = rest.slice(0, end).search(/\.(\s|$)/);
+    if (stop >= 0) end = stop + 1;
+  }
+  return offset + end;
+};
+
+const subtreeEnd = (clauses: Clause[], index: number, starts: number[]) => {
+  const clause = clauses[index];
+  let next = index + 1;
+  while (next < clauses.length && clauses[next].path.length > clause.path.length && clause.path.every((p, i) => clauses[next].path[i] === p)) next++;
+  return next < clauses.length ? starts[next] : Infinity;
+};
+
+/**
+ * Finds the terms a document defines: quoted capitalised terms opening a line of a
+ * definitions section, "(the "X")" patterns and "X" means ... anywhere. A definition
+ * runs to the end of its line or sentence, or to the next definition on the line.
+ * The first definition of a term wins.
+ */
+function findDefinitions(text: string): Map<string, Definition> {
+  const definitions = new Map<string, Definition>();
+  const add = (term: string, [start, end]: [number, number]) => {
+    const key = term.trim();
+    if (!definitions.has(key)) definitions.set(key, { term: key, text: text.slice(start, end).trim(), start, end });
+  };
+
+  const clauses = parseClauses(text);
+  const starts: number[] = [];
+  clauses.reduce((offset, clause) => (starts.push(offset), offset + clause.text.length), 0);
+  clauses.forEach((clause, index) => {
+    if (!DEFINITION_SECTION_RE.test(clause.heading || clause.text.split('\n', 1)[0])) return;
+    const section = text.slice(starts[index], subtreeEnd(clauses, index, starts));
+    const seenLines = new Set<number>();
+    for (const match of section.matchAll(QUOTED_RE)) {
+      const offset = starts[index] + match.index!;
+      const line = lineAround(text, offset);
+      // Only the first quoted term of a line is being defined; later ones are references.
+      if (seenLines.has(line[0])) continue;
+      seenLines.add(line[0]);
+      add(match[1], [offset, definitionEnd(text, offset, false)]);
+    }
+  });
+
+  for (const match of text.matchAll(MEANS_RE)) add(match[1], [match.index!, definitionEnd(text, match.index!, true)]);
+  for (const match of text.matchAll(PARENTHETICAL_RE)) add(match[1], sentenceAround(text, match.index!));
+  return definitions;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const normalize = (definition: string) => definition.replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/\s+/g, ' ').trim();
+
+// Uses of the term (or its plural) outside its own definition.
+const usagesOf = (text: string, definition: Definition | undefined, term: string) =>
+  [...text.matchAll(new RegExp(`(?<![\\w"“])${escapeRegExp(term)}s?(?![\\w"”])`, 'g'))]
+    .map(match => match.index!)
+    .filter(offset => !definition || offset < definition.start || offset >= definition.end);
+
+/**
+ * Compares the defined terms of two versions. A definition that changed changes the
+ * meaning of every clause using the term, so its uses in rows the word diff shows as
+ * unchanged are reported as indirectly affected. Terms that lost their definition
+ * but are still used in Version B are reported as undefined.
+ */
+export function trackDefinedTerms(text1: string, text2: string, rows: AlignedRow[]): DefinedTerm[] {
+  const defsA = findDefinitions(text1);
+  const defsB = findDefinitions(text2);
+  const rowA = createRowLocator(rows, 'left');
+  const rowB = createRowLocator(rows, 'right');
+  const unchanged = (index: number) => {
+    const row = rows[index];
+    return !row.ignored && row.left?.type === 'unchanged' && row.right?.type === 'unchanged';
+  };
+
+  const result: DefinedTerm[] = [];
+  for (const term of new Set([...defsB.keys(), ...defsA.keys()])) {
+    const a = defsA.get(term);
+    const b = defsB.get(term);
+    const uses = usagesOf(text2, b, term);
+    const status: DefinedTermStatus = !a ? 'added'
+      : !b ? (uses.length ? 'undefined' : 'removed')
+      : normalize(a.text) === normalize(b.text) ? 'unchanged' : 'changed';
+    result.push({
+      term,
+      status,
+      before: a?.text,
+      after: b?.text,
+      definitionRow: b ? rowB(b.start) : a ? rowA(a.start) : undefined,
+      usages: uses.length,
+      affectedRows: status === 'changed' ? [...new Set(uses.map(rowB))].filter(unchanged) : [],
+    });
+  }
+
+  const order: DefinedTermStatus[] = ['changed', 'undefined', 'added', 'removed', 'unchanged'];
+  return result.sort((x, y) => order.indexOf(x.status) - order.indexOf(y.status) || x.term.localeCompare(y.term));
+}
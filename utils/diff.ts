@@ -1,76 +1,321 @@
+import { AlignedRow, ComparisonSettings, DiffChange } from '../types';
+import { Clause, clauseKey, parseClauses } from './clauses';
+import { EditOp, myersDiff, patienceDiff } from './sequenceDiff';
+import { annotateCharacterChanges, startsLine } from './charDiff';
+import { createNormalizer, DEFAULT_COMPARISON_SETTINGS, Normalizer, withoutClauseNumbers } from './normalize';
 
-import { DiffChange, AlignedRow } from '../types';
+const tokenize = (text: string) => text.split(/(\s+)/).filter(w => w.length > 0);
 
 /**
- * Enhanced alignment diff that produces a sequence of AlignedRows.
- * It ensures that matching text is on the same vertical line.
+ * Turns an edit script into rows, emitting each run of deletions before the
+ * insertions that replace it so removed and added text sit next to each other.
  */
-export function computeAlignedDiff(text1: string, text2: string): AlignedRow[] {
-  const words1 = text1.split(/(\s+)/).filter(w => w.length > 0);
-  const words2 = text2.split(/(\s+)/).filter(w => w.length > 0);
-
-  const n = words1.length;
-  const m = words2.length;
-
-  const dp: number[][] = Array.from({ length: n + 1 }, () => Array(m + 1).fill(0));
-
-  for (let i = 1; i <= n; i++) {
-    for (let j = 1; j <= m; j++) {
-      if (words1[i - 1] === words2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
+function opsToRows<T>(
+  ops: EditOp[],
+  equal: (a: number, b: number) => T,
+  removed: (a: number) => T,
+  added: (b: number) => T
+): T[] {
+  const out: T[] = [];
+  let pending: T[] = [];
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      out.push(...pending);
+      pending = [];
+      out.push(equal(op.a, op.b));
+    } else if (op.type === 'delete') {
+      out.push(removed(op.a));
+    } else {
+      pending.push(added(op.b));
     }
   }
+  out.push(...pending);
+  return out;
+}
+
+export interface Token {
+  value: string;
+  key: string;
+  ignored: boolean;
+}
+
+export function tokenizeForComparison(text: string, normalizer: Normalizer): Token[] {
+  const ranges = normalizer.ignoredRanges(text);
+  const tokens: Token[] = [];
+  let offset = 0;
+  let atLineStart = true;
+  let r = 0;
+  for (const value of tokenize(text)) {
+    const end = offset + value.length;
+    while (r < ranges.length && ranges[r][1] <= offset) r++;
+    const ignored = r < ranges.length && ranges[r][0] < end;
+    tokens.push({ value, key: normalizer.key(value, atLineStart), ignored });
+    if (/^\s+$/.test(value)) atLineStart = value.includes('\n');
+    else atLineStart = false;
+    offset = end;
+  }
+  return tokens;
+}
 
+/**
+ * Word-level alignment of two passages. Rows are unmerged: one token each.
+ * Tokens are compared by their normalised key but displayed as written; tokens
+ * in ignored ranges are kept as one-sided `ignored` rows at their original place.
+ */
+function diffWords(text1: string, text2: string, normalizer: Normalizer): AlignedRow[] {
+  const tokens1 = tokenizeForComparison(text1, normalizer);
+  const tokens2 = tokenizeForComparison(text2, normalizer);
+  const kept1 = tokens1.map((_, i) => i).filter(i => !tokens1[i].ignored);
+  const kept2 = tokens2.map((_, j) => j).filter(j => !tokens2[j].ignored);
+
+  // Intern tokens so the diff compares integers rather than strings.
+  const ids = new Map<string, number>();
+  const intern = (t: number, tokens: Token[]) => {
+    const key = tokens[t].key;
+    let id = ids.get(key);
+    if (id === undefined) ids.set(key, id = ids.size);
+    return id;
+  };
+
+  const compared = opsToRows<{ row: AlignedRow; a?: number; b?: number }>(
+    patienceDiff(Int32Array.from(kept1, i => intern(i, tokens1)), Int32Array.from(kept2, j => intern(j, tokens2))),
+    (i, j) => ({
+      row: { left: { type: 'unchanged', value: tokens1[kept1[i]].value }, right: { type: 'unchanged', value: tokens2[kept2[j]].value } },
+      a: kept1[i],
+      b: kept2[j],
+    }),
+    i => ({ row: { left: { type: 'removed', value: tokens1[kept1[i]].value }, right: null }, a: kept1[i] }), // Gap in Doc 2
+    j => ({ row: { left: null, right: { type: 'added', value: tokens2[kept2[j]].value } }, b: kept2[j] }) // Gap in Doc 1
+  );
+
+  // Weave ignored tokens back in ahead of the first compared token that follows them.
   const rows: AlignedRow[] = [];
-  let i = n, j = m;
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && words1[i - 1] === words2[j - 1]) {
-      rows.unshift({
-        left: { type: 'unchanged', value: words1[i - 1] },
-        right: { type: 'unchanged', value: words2[j - 1] }
-      });
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      rows.unshift({
-        left: null, // Gap in Doc 1
-        right: { type: 'added', value: words2[j - 1] }
-      });
-      j--;
-    } else {
-      rows.unshift({
-        left: { type: 'removed', value: words1[i - 1] },
-        right: null // Gap in Doc 2
-      });
-      i--;
+  let nextA = 0, nextB = 0;
+  const flush = (untilA: number, untilB: number) => {
+    for (; nextA < untilA; nextA++) {
+      if (tokens1[nextA].ignored) rows.push({ left: { type: 'unchanged', value: tokens1[nextA].value }, right: null, ignored: true });
     }
+    for (; nextB < untilB; nextB++) {
+      if (tokens2[nextB].ignored) rows.push({ left: null, right: { type: 'unchanged', value: tokens2[nextB].value }, ignored: true });
+    }
+  };
+  for (const { row, a, b } of compared) {
+    flush(a ?? nextA, b ?? nextB);
+    rows.push(row);
+    if (a !== undefined) nextA = a + 1;
+    if (b !== undefined) nextB = b + 1;
   }
+  flush(tokens1.length, tokens2.length);
+  return rows;
+}
 
-  // Merge consecutive rows of the same pattern for better rendering
+const wordSet = (text: string) => new Set(text.toLowerCase().split(/\s+/).filter(Boolean));
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Decides whether two clauses are the same provision in different versions.
+ * Headings survive renumbering, so they win; bare numbering only counts when the
+ * text still looks alike, otherwise an insertion would pair every later clause
+ * with its shifted neighbour.
+ */
+function clausesCorrespond(a: Clause, b: Clause, wa: Set<string>, wb: Set<string>): boolean {
+  if (a.kind === 'preamble' || b.kind === 'preamble') return a.kind === b.kind;
+  if (a.heading && b.heading) return a.heading.toUpperCase() === b.heading.toUpperCase();
+  const similarity = overlap(wa, wb);
+  if (clauseKey(a) === clauseKey(b)) return similarity >= 0.3;
+  return similarity >= 0.6;
+}
+
+export type ClauseStep = { left?: Clause; right?: Clause };
+
+/**
+ * Diff over clauses rather than words, producing matched pairs and unmatched clauses in document order.
+ */
+export function alignClauses(clauses1: Clause[], clauses2: Clause[]): ClauseStep[] {
+  const words1 = clauses1.map(c => wordSet(c.text));
+  const words2 = clauses2.map(c => wordSet(c.text));
+  const match = (i: number, j: number) => clausesCorrespond(clauses1[i], clauses2[j], words1[i], words2[j]);
+
+  return opsToRows<ClauseStep>(
+    myersDiff(clauses1.length, clauses2.length, match),
+    (i, j) => ({ left: clauses1[i], right: clauses2[j] }),
+    i => ({ left: clauses1[i] }),
+    j => ({ right: clauses2[j] })
+  );
+}
+
+const rowKind = (row: AlignedRow) => {
+  if (row.ignored) return row.left ? 'ignoredLeft' : 'ignoredRight';
+  if (row.left?.type === 'unchanged' && row.right?.type === 'unchanged') return 'match';
+  if (!row.left && row.right?.type === 'added') return 'added';
+  if (row.left?.type === 'removed' && !row.right) return 'removed';
+  return 'other';
+};
+
+const MOVE_MIN_WORDS = 6;
+const MOVE_MIN_SIMILARITY = 0.6;
+
+/**
+ * Flattens a word diff into inline changes: unchanged runs, deletions and insertions.
+ */
+function inlineChanges(text1: string, text2: string, normalizer: Normalizer): DiffChange[] {
+  const changes: DiffChange[] = [];
+  for (const row of diffWords(text1, text2, normalizer)) {
+    for (const part of [row.left, row.right]) {
+      if (!part || (part === row.right && part.type === 'unchanged')) continue;
+      const last = changes[changes.length - 1];
+      if (last && last.type === part.type) last.value += part.value;
+      else changes.push({ ...part });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Pairs a removed block with an added block elsewhere when their wording is close
+ * enough to be the same text relocated. Both ends become 'moved' and point at each
+ * other; the destination carries the edits made along the way.
+ */
+function detectMoves(rows: AlignedRow[], normalizer: Normalizer): void {
+  const candidates = (side: 'left' | 'right', type: DiffChange['type']) => rows
+    .map((row, index) => ({ index, text: row[side]?.value ?? '' }))
+    .filter(({ index, text }) => {
+      const row = rows[index];
+      const other = side === 'left' ? row.right : row.left;
+      return row[side]?.type === type && !other && text.split(/\s+/).filter(Boolean).length >= MOVE_MIN_WORDS;
+    })
+    .map(c => ({ ...c, words: wordSet(c.text) }));
+
+  const sources = candidates('left', 'removed');
+  const destinations = candidates('right', 'added');
+  const pairs: { source: number; destination: number; similarity: number }[] = [];
+  for (const s of sources) {
+    for (const d of destinations) {
+      const similarity = overlap(s.words, d.words);
+      if (similarity >= MOVE_MIN_SIMILARITY) pairs.push({ source: s.index, destination: d.index, similarity });
+    }
+  }
+
+  // Best matches first; each block can take part in at most one move.
+  pairs.sort((a, b) => b.similarity - a.similarity);
+  const used = new Set<number>();
+  let nextId = 1;
+  for (const { source, destination, similarity } of pairs) {
+    if (used.has(source) || used.has(destination)) continue;
+    used.add(source);
+    used.add(destination);
+
+    const id = nextId++;
+    const sourceRow = rows[source];
+    const destinationRow = rows[destination];
+    // A clause moved elsewhere is renumbered; that alone is not an edit.
+    const verbatim = withoutClauseNumbers(sourceRow.left!.value, startsLine(rows, source, 'left')).trim()
+      === withoutClauseNumbers(destinationRow.right!.value, startsLine(rows, destination, 'right')).trim();
+    sourceRow.left = { type: 'moved', value: sourceRow.left!.value };
+    sourceRow.move = { id, role: 'source', counterpart: destination, similarity: verbatim ? 1 : similarity };
+    destinationRow.right = { type: 'moved', value: destinationRow.right!.value };
+    destinationRow.move = {
+      id,
+      role: 'destination',
+      counterpart: source,
+      similarity: verbatim ? 1 : similarity,
+      edits: verbatim ? undefined : inlineChanges(sourceRow.left.value, destinationRow.right.value, normalizer),
+    };
+  }
+}
+
+const samePath = (a?: string[], b?: string[]) => (a ?? []).join('\u0000') === (b ?? []).join('\u0000');
+
+/**
+ * Enhanced alignment diff that produces a sequence of AlignedRows.
+ * It ensures that matching text is on the same vertical line.
+ *
+ * The documents are first split into clauses by their numbering and headings and the
+ * clauses are aligned to each other; the word diff then only runs within a matched
+ * pair, so an inserted clause cannot drag unrelated clauses out of alignment.
+ * Blocks that were deleted in one place and re-inserted in another are reported as
+ * linked 'moved' rows instead of an unrelated removal and addition.
+ *
+ * Memory stays linear in the document length (see sequenceDiff.ts), so this is safe
+ * to run on very long agreements; `onProgress` receives the fraction completed.
+ * `settings` decides which formatting differences are normalised away before comparing.
+ */
+export function computeAlignedDiff(
+  text1: string,
+  text2: string,
+  settings: ComparisonSettings = DEFAULT_COMPARISON_SETTINGS,
+  onProgress?: (fraction: number) => void
+): AlignedRow[] {
+  const normalizer = createNormalizer(settings, [text1, text2]);
+  const steps = alignClauses(
+    parseClauses(text1, normalizer.isIgnoredLine),
+    parseClauses(text2, normalizer.isIgnoredLine)
+  );
+  const total = text1.length + text2.length || 1;
+  let done = 0;
+  let reported = 0;
+
+  const rows: AlignedRow[] = [];
+  for (const { left, right } of steps) {
+    const clausePath = (right ?? left)!.path;
+    // Unmatched clauses still go through diffWords so ignorable text inside them is recognised.
+    for (const row of diffWords(left?.text ?? '', right?.text ?? '', normalizer)) rows.push({ ...row, clausePath });
+
+    done += (left?.text.length ?? 0) + (right?.text.length ?? 0);
+    if (onProgress && done / total - reported >= 0.01) {
+      reported = done / total;
+      onProgress(reported);
+    }
+  }
+
+  // Merge consecutive rows of the same pattern within a clause for better rendering
   const merged: AlignedRow[] = [];
   for (const row of rows) {
     const last = merged[merged.length - 1];
-    const isMatch = row.left?.type === 'unchanged' && row.right?.type === 'unchanged';
-    const isAddition = !row.left && row.right?.type === 'added';
-    const isRemoval = row.left?.type === 'removed' && !row.right;
-
-    if (last) {
-      const lastIsMatch = last.left?.type === 'unchanged' && last.right?.type === 'unchanged';
-      const lastIsAddition = !last.left && last.right?.type === 'added';
-      const lastIsRemoval = last.left?.type === 'removed' && !last.right;
-
-      if ((isMatch && lastIsMatch) || (isAddition && lastIsAddition) || (isRemoval && lastIsRemoval)) {
-        if (row.left) last.left!.value += row.left.value;
-        if (row.right) last.right!.value += row.right.value;
-        continue;
-      }
+    const kind = rowKind(row);
+
+    if (last && kind !== 'other' && kind === rowKind(last) && samePath(last.clausePath, row.clausePath)) {
+      if (row.left) last.left!.value += row.left.value;
+      if (row.right) last.right!.value += row.right.value;
+      continue;
     }
-    merged.push(row);
+    merged.push({
+      ...row,
+      left: row.left && { ...row.left },
+      right: row.right && { ...row.right },
+    });
   }
 
+  detectMoves(merged, normalizer);
+  annotateCharacterChanges(merged);
   return merged;
 }
+
+/**
+ * Maps a character offset in one of the compared documents to the row showing it.
+ * Each side's row values concatenate to that document; rows with nothing on the
+ * side are skipped, so the result always shows text of that document.
+ */
+export function createRowLocator(rows: AlignedRow[], side: 'left' | 'right'): (offset: number) => number {
+  const rowStarts: number[] = [];
+  let offset = 0;
+  for (const row of rows) {
+    rowStarts.push(offset);
+    offset += row[side]?.value.length ?? 0;
+  }
+  return (position: number) => {
+    let lo = 0, hi = rows.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (rowStarts[mid] <= position) lo = mid; else hi = mid - 1;
+    }
+    while (lo < rows.length - 1 && !rows[lo][side]?.value) lo++;
+    return lo;
+  };
+}
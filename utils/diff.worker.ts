@@ -0,0 +1,16 @@
+import { computeAlignedDiff } from './diff';
+import { computeThreeWayDiff } from './threeWay';
+import { DiffWorkerRequest, DiffWorkerResponse } from './diffWorkerClient';
+
+const post = (message: DiffWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<DiffWorkerRequest>) => {
+  const { text1, text2, settings, base } = event.data;
+  try {
+    const rows = computeAlignedDiff(text1, text2, settings, progress => post({ type: 'progress', progress }));
+    const threeWay = base === undefined ? undefined : computeThreeWayDiff(base, text1, text2, settings);
+    post({ type: 'result', result: { rows, threeWay } });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,88 @@
+import { AlignedRow, ComparisonSettings, ThreeWayRegion } from '../types';
+import { computeAlignedDiff } from './diff';
+import { computeThreeWayDiff } from './threeWay';
+
+export interface DiffWorkerRequest {
+  text1: string;
+  text2: string;
+  settings: ComparisonSettings;
+  base?: string; // also compare both documents against this common ancestor
+}
+
+export interface ComparisonResult {
+  rows: AlignedRow[];
+  threeWay?: ThreeWayRegion[];
+}
+
+export type DiffWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: ComparisonResult }
+  | { type: 'error'; message: string };
+
+export class DiffCancelledError extends Error {
+  constructor() {
+    super('The comparison was superseded by a newer one.');
+    this.name = 'DiffCancelledError';
+  }
+}
+
+let cancelActive: (() => void) | null = null;
+
+/**
+ * Runs the comparison in a Web Worker so long agreements never block the UI: the
+ * two-way computeAlignedDiff and, when a `base` is given, computeThreeWayDiff.
+ * Starting a new comparison terminates the previous one, whose promise rejects
+ * with DiffCancelledError. Background comparisons (`cancelPrevious: false`) neither
+ * cancel nor can be cancelled. Falls back to the main thread where workers are
+ * unavailable.
+ */
+export const runComparisonInWorker = (
+  text1: string,
+  text2: string,
+  settings: ComparisonSettings,
+  onProgress?: (fraction: number) => void,
+  base?: string,
+  { cancelPrevious = true }: { cancelPrevious?: boolean } = {}
+): Promise<ComparisonResult> => {
+  if (cancelPrevious) cancelActive?.();
+
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve({
+      rows: computeAlignedDiff(text1, text2, settings, onProgress),
+      threeWay: base === undefined ? undefined : computeThreeWayDiff(base, text1, text2, settings),
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./diff.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      if (cancelActive === cancel) cancelActive = null;
+    };
+    const cancel = () => {
+      finish();
+      reject(new DiffCancelledError());
+    };
+    if (cancelPrevious) cancelActive = cancel;
+
+    worker.onmessage = (event: MessageEvent<DiffWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The comparison engine failed.'));
+    };
+
+    worker.postMessage({ text1, text2, settings, base } satisfies DiffWorkerRequest);
+  });
+};
@@ -0,0 +1,7 @@
+/**
+ * Hex SHA-256 of a string's UTF-8 bytes.
+ */
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
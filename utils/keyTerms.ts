@@ -0,0 +1,190 @@
+import { AlignedRow } from '../types';
+import { Clause, parseClauses } from './clauses';
+import { alignClauses, createRowLocator } from './diff';
+
+export type KeyTermCategory = 'party' | 'amount' | 'percentage' | 'duration' | 'notice' | 'date' | 'jurisdiction';
+
+export type KeyTermDirection = 'increased' | 'decreased' | 'changed' | 'added' | 'removed' | 'unchanged';
+
+export const KEY_TERM_LABELS: Record<KeyTermCategory, string> = {
+  party: 'Party',
+  amount: 'Amount',
+  percentage: 'Percentage',
+  duration: 'Duration',
+  notice: 'Notice period',
+  date: 'Date',
+  jurisdiction: 'Jurisdiction',
+};
+
+export interface KeyTermValue {
+  text: string; // as written, e.g. "thirty (30) days"
+  row: number; // row of the comparison showing it
+}
+
+export interface KeyTerm {
+  category: KeyTermCategory;
+  clause: string; // label of the clause stating it; empty for parties and the preamble
+  a?: KeyTermValue;
+  b?: KeyTermValue;
+  direction: KeyTermDirection;
+}
+
+interface Extracted {
+  category: KeyTermCategory;
+  text: string;
+  offset: number;
+  magnitude?: { value: number; unit: string }; // comparable amount, e.g. 30 "day" or 5000 "$"
+  clause: Clause | null;
+}
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec';
+// Spelled-out numbers as in "thirty (30) days".
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred';
+const MULTIPLIERS: Record<string, number> = { thousand: 1e3, k: 1e3, million: 1e6, m: 1e6, mm: 1e6, billion: 1e9, bn: 1e9 };
+const CURRENCY_WORDS: Record<string, string> = { dollars: '$', usd: '$', euros: '€', eur: '€', pounds: '£', gbp: '£' };
+
+const PATTERNS: { category: KeyTermCategory; re: RegExp }[] = [
+  { category: 'amount', re: /(?:[$€£]|\b(?:USD|EUR|GBP)\s?)\d[\d,]*(?:\.\d+)?(?:\s?(?:thousand|million|billion|bn|mm|[km])\b)?|\b\d[\d,]*(?:\.\d+)?(?:\s?(?:thousand|million|billion))?\s?(?:USD|EUR|GBP|dollars|euros|pounds)\b/gi },
+  { category: 'percentage', re: /\b\d+(?:\.\d+)?\s?(?:%|percent\b|per cent\b)/gi },
+  { category: 'duration', re: new RegExp(`(?:\\b(?:${NUMBER_WORDS})(?:[- ](?:and )?(?:${NUMBER_WORDS}))*\\s+\\(\\d+\\)|\\b\\d+)\\s*(?:business\\s+days?|calendar\\s+days?|days?|weeks?|months?|years?)\\b`, 'gi') },
+  { category: 'date', re: new RegExp(`\\b(?:(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{2,4})\\b`, 'g') },
+  { category: 'jurisdiction', re: /\b(?:laws?|courts?|jurisdiction)\s+of\s+(?:the\s+)?(?:(?:State|Commonwealth|Province|Republic)\s+of\s+)?[A-Z][A-Za-z]+(?:\s+[A-Z][A-Za-z]+)*/g },
+];
+
+// Capitalised roles that name the parties when the preamble does not define them.
+const PARTY_ROLES = /\b(?:Provider|Client|Customer|Supplier|Vendor|Buyer|Seller|Purchaser|Licensor|Licensee|Lessor|Lessee|Landlord|Tenant|Contractor|Consultant|Employer|Employee|Distributor|Reseller|Company|Borrower|Lender)\b/g;
+const DEFINED_PARTY = /\((?:the\s+|hereinafter\s+(?:the\s+)?)?["“]([A-Z][\w .&-]{1,40})["”]\)/g;
+
+const DAYS_PER_UNIT: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+function magnitudeOf(category: KeyTermCategory, text: string): Extracted['magnitude'] {
+  const number = /(\d[\d,]*(?:\.\d+)?)/.exec(text.replace(/\((\d+)\)/, '$1'));
+  if (!number) return undefined;
+  const value = parseFloat(number[1].replace(/,/g, ''));
+  if (category === 'amount') {
+    const lower = text.toLowerCase();
+    const currency = /[$€£]/.exec(text)?.[0] ?? CURRENCY_WORDS[/usd|eur|gbp|dollars|euros|pounds/.exec(lower)?.[0] ?? ''] ?? '';
+    const multiplier = /(thousand|million|billion|bn|mm|\b[km])\b/.exec(lower.slice(number.index + number[1].length))?.[1];
+    return { value: value * (multiplier ? MULTIPLIERS[multiplier.trim()] : 1), unit: currency };
+  }
+  if (category === 'duration' || category === 'notice') {
+    const unit = /(business|calendar)?\s*(day|week|month|year)/i.exec(text);
+    if (!unit) return undefined;
+    // Business days are not a fixed number of calendar days, so they only compare with each other.
+    return unit[1]?.toLowerCase() === 'business' ? { value, unit: 'business day' } : { value: value * DAYS_PER_UNIT[unit[2].toLowerCase()], unit: 'day' };
+  }
+  if (category === 'percentage') return { value, unit: '%' };
+  return undefined;
+}
+
+const sentenceAround = (text: string, offset: number) => {
+  const start = Math.max(text.lastIndexOf('.', offset), text.lastIndexOf('\n', offset)) + 1;
+  const end = text.slice(offset).search(/[.\n]/);
+  return text.slice(start, end < 0 ? undefined : offset + end);
+};
+
+function extract(text: string, clauses: Clause[]): Extracted[] {
+  const starts: number[] = [];
+  clauses.reduce((offset, clause) => (starts.push(offset), offset + clause.text.length), 0);
+  const clauseAt = (offset: number) => {
+    let index = -1;
+    while (index + 1 < starts.length && starts[index + 1] <= offset) index++;
+    return clauses[index] ?? null;
+  };
+
+  const terms: Extracted[] = [];
+  const taken: [number, number][] = [];
+  for (const { category, re } of PATTERNS) {
+    for (const match of text.matchAll(re)) {
+      const offset = match.index!;
+      const end = offset + match[0].length;
+      // The first pattern to claim text wins, so "$5,000" is not also a bare number elsewhere.
+      if (taken.some(([s, e]) => offset < e && end > s)) continue;
+      taken.push([offset, end]);
+      // A duration in a sentence about notice is a notice period.
+      const kind = category === 'duration' && /\bnotice\b/i.test(sentenceAround(text, offset)) ? 'notice' : category;
+      terms.push({ category: kind, text: match[0].trim(), offset, magnitude: magnitudeOf(kind, match[0]), clause: clauseAt(offset) });
+    }
+  }
+
+  const preamble = clauses[0]?.kind === 'preamble' ? clauses[0].text : '';
+  const defined = [...preamble.matchAll(DEFINED_PARTY)];
+  const parties = defined.length ? defined : [...text.matchAll(PARTY_ROLES)];
+  const seen = new Set<string>();
+  for (const match of parties) {
+    const name = (match[1] ?? match[0]).trim();
+    if (seen.has(name)) continue;
+    seen.add(name);
+    const offset = match.index! + match[0].indexOf(name);
+    terms.push({ category: 'party', text: name, offset, clause: null });
+  }
+
+  return terms.sort((x, y) => x.offset - y.offset);
+}
+
+// Terms correspond across versions by category, aligned clause pair and order within the
+// clause, so an inserted or renumbered clause does not shift the terms after it.
+const termKey = (term: Extracted, pairs: Map<Clause, number>, ordinal: number) =>
+  `${term.category}\u0000${term.category === 'party' || !term.clause ? '' : pairs.get(term.clause)}\u0000${ordinal}`;
+
+function keyed(terms: Extracted[], pairs: Map<Clause, number>): Map<string, Extracted> {
+  const counts = new Map<string, number>();
+  const result = new Map<string, Extracted>();
+  for (const term of terms) {
+    const group = termKey(term, pairs, 0);
+    const ordinal = counts.get(group) ?? 0;
+    counts.set(group, ordinal + 1);
+    result.set(termKey(term, pairs, ordinal), term);
+  }
+  return result;
+}
+
+function directionOf(a?: Extracted, b?: Extracted): KeyTermDirection {
+  if (!a) return 'added';
+  if (!b) return 'removed';
+  if (a.text.replace(/\s+/g, ' ') === b.text.replace(/\s+/g, ' ')) return 'unchanged';
+  if (a.magnitude && b.magnitude && a.magnitude.unit === b.magnitude.unit) {
+    if (b.magnitude.value > a.magnitude.value) return 'increased';
+    if (b.magnitude.value < a.magnitude.value) return 'decreased';
+  }
+  return 'changed';
+}
+
+const CATEGORY_ORDER: KeyTermCategory[] = ['party', 'amount', 'percentage', 'duration', 'notice', 'date', 'jurisdiction'];
+
+/**
+ * Pulls the commercial terms out of both versions - parties, amounts, percentages,
+ * durations, notice periods, dates and jurisdictions - with regular expressions
+ * only, and pairs them up. Each value points at the comparison row showing it.
+ */
+export function extractKeyTerms(text1: string, text2: string, rows: AlignedRow[]): KeyTerm[] {
+  const rowA = createRowLocator(rows, 'left');
+  const rowB = createRowLocator(rows, 'right');
+  const clausesA = parseClauses(text1);
+  const clausesB = parseClauses(text2);
+  // Both clauses of an aligned pair share its index; unmatched clauses get one of their own.
+  const pairsA = new Map<Clause, number>();
+  const pairsB = new Map<Clause, number>();
+  alignClauses(clausesA, clausesB).forEach(({ left, right }, pair) => {
+    if (left) pairsA.set(left, pair);
+    if (right) pairsB.set(right, pair);
+  });
+  const termsA = keyed(extract(text1, clausesA), pairsA);
+  const termsB = keyed(extract(text2, clausesB), pairsB);
+
+  const result: KeyTerm[] = [];
+  for (const key of new Set([...termsB.keys(), ...termsA.keys()])) {
+    const a = termsA.get(key);
+    const b = termsB.get(key);
+    const term = (b ?? a)!;
+    result.push({
+      category: term.category,
+      clause: term.clause?.label ?? '',
+      a: a && { text: a.text, row: rowA(a.offset) },
+      b: b && { text: b.text, row: rowB(b.offset) },
+      direction: directionOf(a, b),
+    });
+  }
+  return result.sort((x, y) =>
+    CATEGORY_ORDER.indexOf(x.category) - CATEGORY_ORDER.indexOf(y.category) || (x.b ?? x.a)!.row - (y.b ?? y.a)!.row);
+}
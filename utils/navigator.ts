@@ -0,0 +1,131 @@
+import { AlignedRow, KeyChange } from '../types';
+import { PlaybookSeverity, PlaybookViolation } from './playbook';
+
+export type ChangeKind = 'added' | 'removed' | 'moved';
+
+export interface NavigatorFilter {
+  kinds: ChangeKind[]; // empty: every kind
+  insight: boolean; // only rows with an AI insight
+  comment: boolean; // only rows with a comment thread
+  clause: string; // top-level clause heading, '' for all
+}
+
+export const EMPTY_FILTER: NavigatorFilter = { kinds: [], insight: false, comment: false, clause: '' };
+
+export interface SearchResult {
+  rows: number[]; // rows with a hit on either side, in document order
+  matches: number;
+}
+
+export interface MinimapBucket {
+  first: number; // first row in the bucket
+  rows: number;
+  changes: number; // changed rows matching the filter
+  risk: number; // highest risk score of its rows, 0-10
+  found: boolean; // holds a search hit
+}
+
+const SEVERITY_RISK: Record<PlaybookSeverity, number> = { low: 3, medium: 6, high: 9 };
+
+/** The kinds of change a row shows on either side; empty for unchanged and ignored rows. */
+export function changeKinds(row: AlignedRow): ChangeKind[] {
+  if (row.ignored) return [];
+  const kinds = new Set<ChangeKind>();
+  for (const part of [row.left, row.right]) {
+    if (part && part.type !== 'unchanged') kinds.add(part.type);
+  }
+  return [...kinds];
+}
+
+export const topClause = (row: AlignedRow) => row.clausePath?.[0] ?? '';
+
+export const isFilterActive = (filter: NavigatorFilter) =>
+  filter.kinds.length > 0 || filter.insight || filter.comment || !!filter.clause;
+
+/** Whether a changed row passes the filter; unchanged rows never do. */
+export function matchesFilter(
+  row: AlignedRow,
+  index: number,
+  filter: NavigatorFilter,
+  insights: Record<number, string>,
+  commented: Record<number, unknown>
+): boolean {
+  const kinds = changeKinds(row);
+  if (!kinds.length) return false;
+  if (filter.kinds.length && !kinds.some(kind => filter.kinds.includes(kind))) return false;
+  if (filter.insight && !insights[index]) return false;
+  if (filter.comment && !commented[index]) return false;
+  return !filter.clause || topClause(row) === filter.clause;
+}
+
+/**
+ * The rows next/previous steps between: the first row of each run of consecutive
+ * matching rows, so a replaced passage (a removed row followed by an added one) is
+ * one stop rather than two.
+ */
+export function changeStops(matching: boolean[]): number[] {
+  return matching.flatMap((match, index) => (match && !matching[index - 1] ? [index] : []));
+}
+
+/** Every case-insensitive occurrence of `query` on both sides of the comparison. */
+export function searchRows(rows: AlignedRow[], query: string): SearchResult {
+  const result: SearchResult = { rows: [], matches: 0 };
+  if (!query.trim()) return result;
+  rows.forEach((row, index) => {
+    const found = splitMatches(row.left?.value ?? '', query).filter(p => p.match).length
+      + splitMatches(row.right?.value ?? '', query).filter(p => p.match).length;
+    if (!found) return;
+    result.rows.push(index);
+    result.matches += found;
+  });
+  return result;
+}
+
+/** `text` cut into the case-insensitive occurrences of `query` and the text between them. */
+export function splitMatches(text: string, query: string): { text: string; match: boolean }[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+  const haystack = text.toLowerCase();
+  const parts: { text: string; match: boolean }[] = [];
+  let from = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, from)) {
+    if (at > from) parts.push({ text: text.slice(from, at), match: false });
+    parts.push({ text: text.slice(at, at + needle.length), match: true });
+    from = at + needle.length;
+  }
+  if (from < text.length) parts.push({ text: text.slice(from), match: false });
+  return parts;
+}
+
+/**
+ * Risk of each row on a 0-10 scale: the highest score of the analysis findings citing
+ * it, or of the playbook rules it breaks, by severity.
+ */
+export function rowRisk(rowCount: number, keyChanges: KeyChange[], violations: PlaybookViolation[]): number[] {
+  const risk = new Array<number>(rowCount).fill(0);
+  const raise = (row: number, score: number) => {
+    if (row < rowCount) risk[row] = Math.max(risk[row], score);
+  };
+  for (const change of keyChanges) for (const row of change.rows ?? []) raise(row, change.riskScore);
+  for (const violation of violations) for (const row of violation.rows) raise(row, SEVERITY_RISK[violation.severity]);
+  return risk;
+}
+
+/** Rows grouped into at most `count` equal buckets down the length of the comparison. */
+export function minimapBuckets(matching: boolean[], risk: number[], found: Set<number>, count: number): MinimapBucket[] {
+  const size = Math.max(1, Math.ceil(matching.length / count));
+  const buckets: MinimapBucket[] = [];
+  for (let first = 0; first < matching.length; first += size) {
+    const end = Math.min(first + size, matching.length);
+    let changes = 0;
+    let highest = 0;
+    let hit = false;
+    for (let row = first; row < end; row++) {
+      if (matching[row]) changes++;
+      highest = Math.max(highest, risk[row] ?? 0);
+      hit ||= found.has(row);
+    }
+    buckets.push({ first, rows: end - first, changes, risk: highest, found: hit });
+  }
+  return buckets;
+}
@@ -0,0 +1,128 @@
+import { ComparisonSettings } from '../types';
+import { PAGE_BREAK_RE } from './pageBreaks';
+
+export const DEFAULT_COMPARISON_SETTINGS: ComparisonSettings = {
+  ignoreWhitespace: true,
+  ignoreCase: false,
+  normalizePunctuation: true,
+  ignoreNumbering: false,
+  ignoreHeadersFooters: false,
+  ignorePatterns: [],
+};
+
+// Typographic variants introduced by Word, OCR and copy/paste, mapped to their plain forms.
+const PUNCTUATION_MAP: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': "'", '‛': "'", '′': "'",
+  '“': '"', '”': '"', '„': '"', '‟': '"', '″': '"', '«': '"', '»': '"',
+  '‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '―': '-', '−': '-',
+  '…': '...', '\u00a0': ' ', '\u00ad': '',
+};
+const PUNCTUATION_RE = new RegExp(`[${Object.keys(PUNCTUATION_MAP).join('')}]`, 'g');
+
+/** Replaces typographic quotes, dashes, ellipses and special spaces with their plain forms. */
+export const normalizePunctuation = (text: string) => text.replace(PUNCTUATION_RE, c => PUNCTUATION_MAP[c]);
+
+const NUMBERING_TOKEN_RE = /^(?:\d+(?:\.\d+)*[.)]?|\([a-z]{1,3}\)|\((?:[ivxlc]+|\d+)\)|[a-z][.)]|[IVXLC]+\.)$/i;
+/**
+ * `text` without the clause numbers ("2.", "(b)", "IV.") opening its lines. The first
+ * line only counts as a line when `atLineStart`, i.e. the text begins one.
+ */
+export function withoutClauseNumbers(text: string, atLineStart: boolean): string {
+  return text.split('\n').map((line, i) => {
+    if (i === 0 && !atLineStart) return line;
+    const match = /^(\s*)(\S+)\s*/.exec(line);
+    return match && NUMBERING_TOKEN_RE.test(match[2]) ? match[1] + line.slice(match[0].length) : line;
+  }).join('\n');
+}
+
+const PAGE_NUMBER_LINE_RE = /^\s*(?:page\s+\d+(?:\s+of\s+\d+)?|-?\s*\d{1,4}\s*-?|\d+\s*\/\s*\d+)\s*$/i;
+
+const RUNNING_LINE_MIN_REPEATS = 3;
+const RUNNING_LINE_MAX_LENGTH = 100;
+
+/**
+ * Returns the ignore patterns that are not valid regular expressions.
+ */
+export function invalidPatterns(patterns: string[]): string[] {
+  return patterns.filter(pattern => {
+    try {
+      new RegExp(pattern);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+}
+
+/**
+ * Normalisation applied before diffing. Tokens are compared by their `key`, while
+ * the original token is what gets displayed; ignored ranges are left out of the
+ * comparison entirely.
+ */
+export interface Normalizer {
+  key: (token: string, atLineStart: boolean) => string;
+  ignoredRanges: (text: string) => Array<[number, number]>;
+  isIgnoredLine: (line: string) => boolean;
+}
+
+/**
+ * Lines repeated on many pages of a document (running headers and footers).
+ */
+function findRunningLines(texts: string[]): Set<string> {
+  const running = new Set<string>();
+  for (const text of texts) {
+    const counts = new Map<string, number>();
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.length > RUNNING_LINE_MAX_LENGTH) continue;
+      counts.set(trimmed, (counts.get(trimmed) ?? 0) + 1);
+    }
+    counts.forEach((count, line) => { if (count >= RUNNING_LINE_MIN_REPEATS) running.add(line); });
+  }
+  return running;
+}
+
+export function createNormalizer(settings: ComparisonSettings, texts: string[]): Normalizer {
+  const patterns = settings.ignorePatterns
+    .filter(p => p.trim() && invalidPatterns([p]).length === 0)
+    .map(p => new RegExp(p, 'g'));
+  const runningLines = settings.ignoreHeadersFooters ? findRunningLines(texts) : new Set<string>();
+
+  const isIgnoredLine = (line: string) => {
+    const trimmed = line.trim();
+    // Page-break markers are added on import, so they are never part of either document.
+    if (PAGE_BREAK_RE.test(trimmed)) return true;
+    if (!settings.ignoreHeadersFooters) return false;
+    return trimmed.length > 0 && (PAGE_NUMBER_LINE_RE.test(trimmed) || runningLines.has(trimmed));
+  };
+
+  const key = (token: string, atLineStart: boolean) => {
+    if (/^\s+$/.test(token)) {
+      if (settings.ignoreWhitespace) return ' ';
+      return settings.normalizePunctuation ? token.replace(/\u00a0/g, ' ') : token;
+    }
+    let normalized = token;
+    if (settings.normalizePunctuation) normalized = normalizePunctuation(normalized);
+    if (settings.ignoreNumbering && atLineStart && NUMBERING_TOKEN_RE.test(normalized)) return '§#';
+    if (settings.ignoreCase) normalized = normalized.toLowerCase();
+    return normalized;
+  };
+
+  const ignoredRanges = (text: string) => {
+    const ranges: Array<[number, number]> = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+      if (isIgnoredLine(line)) ranges.push([offset, offset + line.length + 1]);
+      offset += line.length + 1;
+    }
+    for (const pattern of patterns) {
+      pattern.lastIndex = 0;
+      for (const match of text.matchAll(pattern)) {
+        if (match[0].length > 0) ranges.push([match.index!, match.index! + match[0].length]);
+      }
+    }
+    return ranges.sort((a, b) => a[0] - b[0]);
+  };
+
+  return { key, ignoredRanges, isIgnoredLine };
+}
@@ -0,0 +1,34 @@
+import { AlignedRow } from '../types';
+
+// Opens each page of a document captured page by page. The comparison ignores these lines.
+export const PAGE_BREAK_RE = /^--- Page (\d+) ---$/;
+
+export const pageBreakMarker = (page: number) => `--- Page ${page} ---`;
+
+/**
+ * The source page of every row on one side of a comparison, read from the page-break
+ * markers in that side's document; null when the document has none. A row belongs to
+ * the page its first non-blank character is on.
+ */
+export function sourcePagesOfRows(text: string, rows: AlignedRow[], side: 'left' | 'right'): number[] | null {
+  const starts: { offset: number; page: number }[] = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const match = PAGE_BREAK_RE.exec(line.trim());
+    if (match) starts.push({ offset, page: Number(match[1]) });
+    offset += line.length + 1;
+  }
+  if (!starts.length) return null;
+
+  const pages: number[] = [];
+  let position = 0;
+  let current = 0;
+  for (const row of rows) {
+    const value = row[side]?.value ?? '';
+    const first = position + Math.max(0, value.search(/\S/));
+    while (current + 1 < starts.length && starts[current + 1].offset <= first) current++;
+    pages.push(starts[current].page);
+    position += value.length;
+  }
+  return pages;
+}
@@ -0,0 +1,105 @@
+export interface PageCrop {
+  x: number; // fractions of the straightened image, 0-1
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CapturedPage {
+  id: string;
+  image: HTMLCanvasElement; // the frame as captured
+  crop: PageCrop;
+  rotation: number; // degrees clockwise applied to straighten the page
+}
+
+export const FULL_CROP: PageCrop = { x: 0, y: 0, width: 1, height: 1 };
+export const MAX_ROTATION = 15;
+
+const SKEW_SAMPLE_WIDTH = 400;
+const SKEW_STEP = 0.5;
+
+/** The captured frame turned by `rotation` degrees about its centre; uncovered corners are white. */
+export function straighten(image: HTMLCanvasElement, rotation: number): HTMLCanvasElement {
+  if (!rotation) return image;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  return canvas;
+}
+
+/** The page as it will be read: straightened, then cropped, optionally scaled down to `maxWidth`. */
+export function renderPage(page: CapturedPage, maxWidth = Infinity): HTMLCanvasElement {
+  const source = straighten(page.image, page.rotation);
+  const sx = Math.round(page.crop.x * source.width);
+  const sy = Math.round(page.crop.y * source.height);
+  const sw = Math.max(1, Math.round(page.crop.width * source.width));
+  const sh = Math.max(1, Math.round(page.crop.height * source.height));
+  const scale = Math.min(1, maxWidth / sw);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  canvas.getContext('2d')!.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Points of ink on a page, taken from a small greyscale copy: pixels clearly darker
+ * than the page's average brightness.
+ */
+function inkPoints(image: HTMLCanvasElement): [number, number][] {
+  const scale = Math.min(1, SKEW_SAMPLE_WIDTH / image.width);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const grey = new Float32Array(width * height);
+  let total = 0;
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    total += grey[i];
+  }
+  const threshold = (total / grey.length) * 0.7;
+  const points: [number, number][] = [];
+  for (let i = 0; i < grey.length; i++) if (grey[i] < threshold) points.push([i % width - width / 2, Math.floor(i / width) - height / 2]);
+  return points;
+}
+
+/**
+ * The rotation that best straightens a photographed page, in degrees. Lines of text
+ * are level when the ink, projected onto the vertical axis, falls into the sharpest
+ * peaks; each candidate angle is scored by the sum of squared row counts.
+ */
+export function estimateRotation(image: HTMLCanvasElement): number {
+  const points = inkPoints(image);
+  if (points.length < 50) return 0;
+  let best = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_ROTATION; angle <= MAX_ROTATION; angle += SKEW_STEP) {
+    const rad = (angle * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const rows = new Map<number, number>();
+    for (const [x, y] of points) {
+      const row = Math.round(x * sin + y * cos);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    }
+    let score = 0;
+    rows.forEach(count => { score += count * count; });
+    if (score > bestScore) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,274 @@
+import { parse as parseYaml } from 'yaml';
+import { AlignedRow } from '../types';
+import { Clause, parseClauses } from './clauses';
+
+export type PlaybookSeverity = 'low' | 'medium' | 'high';
+
+interface RuleBase {
+  id: string;
+  title: string;
+  severity: PlaybookSeverity;
+  clause?: string; // regular expression for the clause heading; without it the rule applies to the whole document
+  when?: string; // regular expression; the rule only applies to clauses whose text matches it
+}
+
+/**
+ * pattern: `pattern` must occur in every clause in scope (or must not, with `require: false`).
+ * threshold: every number captured by `pattern` must lie within `min`..`max`.
+ * clause: a clause matching `clause` must exist (or must not, with `require: false`).
+ */
+export type PlaybookRule =
+  | (RuleBase & { type: 'pattern'; pattern: string; require: boolean })
+  | (RuleBase & { type: 'threshold'; pattern: string; min?: number; max?: number })
+  | (RuleBase & { type: 'clause'; require: boolean });
+
+export interface Playbook {
+  name: string;
+  rules: PlaybookRule[];
+}
+
+export interface PlaybookViolation {
+  ruleId: string;
+  title: string;
+  severity: PlaybookSeverity;
+  message: string;
+  clause?: string; // label of the offending clause
+  rows: number[]; // offending rows of the comparison
+  introduced: boolean; // the original document did not break this rule
+}
+
+export const DEFAULT_PLAYBOOK_SOURCE = `# Negotiation playbook, evaluated against the revised document of every comparison.
+# Rule types: pattern, threshold, clause. Patterns are case-insensitive regular expressions.
+name: Standard commercial playbook
+rules:
+  - id: liability-cap
+    title: Liability cap must exist
+    type: pattern
+    clause: liabilit
+    pattern: 'shall not exceed|\\bcap(ped)?\\s+at|limited to'
+    severity: high
+  - id: liability-cap-months
+    title: Liability cap of at least 12 months of fees
+    type: threshold
+    clause: liabilit
+    pattern: '(\\d+)\\s*\\)?\\s*months'
+    min: 12
+    severity: high
+  - id: governing-law
+    title: Governing law is New York, Delaware or California
+    type: pattern
+    clause: governing law|applicable law
+    pattern: New York|Delaware|California
+    severity: medium
+  - id: auto-renewal-notice
+    title: Auto-renewal requires a notice period
+    type: pattern
+    when: automatic(ally)?\\s+renew|auto-renew
+    pattern: notice
+    severity: medium
+`;
+
+const SEVERITIES: PlaybookSeverity[] = ['low', 'medium', 'high'];
+const RULE_TYPES: PlaybookRule['type'][] = ['pattern', 'threshold', 'clause'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isSeverity = (value: unknown): value is PlaybookSeverity => SEVERITIES.includes(value as PlaybookSeverity);
+const isRuleType = (value: unknown): value is PlaybookRule['type'] => RULE_TYPES.includes(value as PlaybookRule['type']);
+const optionalString = (value: unknown) => (value === undefined ? undefined : String(value));
+const optionalNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+const compile = (source: string, where: string) => {
+  try {
+    return new RegExp(source, 'i');
+  } catch {
+    throw new Error(`${where}: "${source}" is not a valid regular expression.`);
+  }
+};
+
+/**
+ * Reads a playbook written in YAML or JSON and checks every rule, so that problems
+ * surface when the playbook is saved rather than silently during evaluation.
+ */
+export function parsePlaybook(source: string): Playbook {
+  let raw: unknown;
+  try {
+    raw = source.trim().startsWith('{') ? JSON.parse(source) : parseYaml(source);
+  } catch (e) {
+    throw new Error(`The playbook is not valid YAML or JSON: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.rules)) throw new Error('The playbook needs a "rules" list.');
+
+  const rules = raw.rules.map((rule: unknown, i: number): PlaybookRule => {
+    const where = `Rule ${i + 1}${isRecord(rule) && rule.id ? ` (${rule.id})` : ''}`;
+    if (!isRecord(rule) || !isRuleType(rule.type)) {
+      throw new Error(`${where}: "type" must be pattern, threshold or clause.`);
+    }
+    const severity = rule.severity ?? 'medium';
+    if (!isSeverity(severity)) throw new Error(`${where}: "severity" must be low, medium or high.`);
+    for (const key of ['clause', 'when', 'pattern'] as const) {
+      if (rule[key] !== undefined) compile(String(rule[key]), where);
+    }
+    const id = String(rule.id ?? `rule-${i + 1}`);
+    const base = {
+      id,
+      title: String(rule.title ?? id),
+      severity,
+      clause: optionalString(rule.clause),
+      when: optionalString(rule.when),
+    };
+    switch (rule.type) {
+      case 'clause':
+        if (!base.clause) throw new Error(`${where}: clause rules need a "clause" pattern.`);
+        return { ...base, type: 'clause', require: rule.require !== false };
+      case 'pattern':
+        if (!rule.pattern) throw new Error(`${where}: pattern rules need a "pattern".`);
+        return { ...base, type: 'pattern', pattern: String(rule.pattern), require: rule.require !== false };
+      default:
+        if (!rule.pattern) throw new Error(`${where}: threshold rules need a "pattern".`);
+        if (typeof rule.min !== 'number' && typeof rule.max !== 'number') {
+          throw new Error(`${where}: threshold rules need a numeric "min" or "max".`);
+        }
+        return { ...base, type: 'threshold', pattern: String(rule.pattern), min: optionalNumber(rule.min), max: optionalNumber(rule.max) };
+    }
+  });
+
+  return { name: String(raw.name ?? 'Playbook'), rules };
+}
+
+interface Scope {
+  label: string; // empty for the whole document
+  path: string[];
+  text: string;
+}
+
+const subtreeText = (clause: Clause): string => clause.text + clause.children.map(subtreeText).join('');
+
+// A clause is recognised by its label or its first line, which carries headings like "9. Liability."
+const clauseMatches = (clause: Clause, re: RegExp) => re.test(`${clause.label} ${clause.text.split('\n', 1)[0]}`);
+
+/**
+ * The parts of a document a rule applies to: the outermost clauses matching
+ * `clause` (with their sub-clauses), every clause whose own text matches `when`,
+ * or else the whole document.
+ */
+function scopesOf(rule: PlaybookRule, clauses: Clause[], text: string): Scope[] {
+  const when = rule.when ? compile(rule.when, rule.id) : null;
+  if (rule.clause) {
+    const re = compile(rule.clause, rule.id);
+    const matched: Clause[] = [];
+    for (const clause of clauses) {
+      if (clause.kind === 'preamble' || !clauseMatches(clause, re)) continue;
+      if (matched.some(outer => clause.path.length > outer.path.length && outer.path.every((p, i) => clause.path[i] === p))) continue;
+      matched.push(clause);
+    }
+    return matched
+      .map(clause => ({ label: clause.label, path: clause.path, text: subtreeText(clause) }))
+      .filter(scope => !when || when.test(scope.text));
+  }
+  if (when) {
+    return clauses
+      .filter(clause => when.test(clause.text))
+      .map(clause => ({ label: clause.label || 'Preamble', path: clause.path, text: clause.text }));
+  }
+  return [{ label: '', path: [], text }];
+}
+
+const toNumber = (match: RegExpExecArray) =>
+  parseFloat((match.slice(1).find(group => group !== undefined) ?? match[0]).replace(/,/g, ''));
+
+interface Finding {
+  message: string;
+  scope?: Scope;
+  quote?: string; // offending text, to find the exact row
+}
+
+function check(rule: PlaybookRule, clauses: Clause[], text: string): Finding[] {
+  const scopes = scopesOf(rule, clauses, text);
+  const where = (scope: Scope) => scope.label || 'The document';
+
+  switch (rule.type) {
+    case 'clause':
+      if (rule.require) return scopes.length ? [] : [{ message: `No clause matching "${rule.clause}".` }];
+      return scopes.map(scope => ({ message: `${scope.label} is not allowed.`, scope }));
+
+    case 'pattern': {
+      const re = compile(rule.pattern, rule.id);
+      return scopes.flatMap((scope): Finding[] => {
+        const match = re.exec(scope.text);
+        if (rule.require) return match ? [] : [{ message: `${where(scope)} does not contain "${rule.pattern}".`, scope }];
+        return match ? [{ message: `${where(scope)} contains "${match[0].trim()}".`, scope, quote: match[0] }] : [];
+      });
+    }
+
+    case 'threshold': {
+      const re = new RegExp(compile(rule.pattern, rule.id).source, 'gi');
+      return scopes.flatMap((scope): Finding[] => {
+        const matches = [...scope.text.matchAll(re)].filter(match => !isNaN(toNumber(match)));
+        if (matches.length === 0) return [{ message: `${where(scope)} states no value this rule can check.`, scope }];
+        return matches.flatMap((match): Finding[] => {
+          const value = toNumber(match);
+          const quote = match[0].trim();
+          if (rule.min !== undefined && value < rule.min) return [{ message: `${where(scope)}: "${quote}" is below the minimum of ${rule.min}.`, scope, quote }];
+          if (rule.max !== undefined && value > rule.max) return [{ message: `${where(scope)}: "${quote}" is above the maximum of ${rule.max}.`, scope, quote }];
+          return [];
+        });
+      });
+    }
+  }
+}
+
+/**
+ * What a finding is about, independent of where the clause it concerns now sits: its
+ * offending text, else its message without the clause label it opens with.
+ */
+const findingKey = (finding: Finding) =>
+  finding.quote?.trim().toLowerCase()
+  ?? (finding.scope ? finding.message.slice((finding.scope.label || 'The document').length) : finding.message);
+
+const startsWith = (path: string[] | undefined, prefix: string[]) =>
+  !!path && prefix.length <= path.length && prefix.every((label, i) => path[i] === label);
+
+/**
+ * Rows of the comparison a finding points at: those of its clause that contain the
+ * offending text, else the clause's first row. A required clause that is missing
+ * points at the rows that deleted it, if the revision did.
+ */
+function rowsFor(rule: PlaybookRule, finding: Finding, rows: AlignedRow[]): number[] {
+  const indices = rows.map((_, index) => index);
+  if (!finding.scope) {
+    if (rule.type !== 'clause' || !rule.clause) return [];
+    const re = compile(rule.clause, rule.id);
+    return indices.filter(i => !rows[i].right && rows[i].left && rows[i].clausePath?.some(label => re.test(label)));
+  }
+  const inScope = indices.filter(i => rows[i].right?.value.trim() && startsWith(rows[i].clausePath, finding.scope!.path));
+  const quote = finding.quote?.trim();
+  const exact = quote ? inScope.filter(i => rows[i].right!.value.includes(quote)) : [];
+  if (exact.length) return exact;
+  return finding.scope.path.length ? inScope.slice(0, 1) : [];
+}
+
+/**
+ * Evaluates every rule of the playbook against the revised document, deterministically:
+ * the same documents and playbook always give the same violations. Each violation is
+ * linked to the offending rows of the comparison and says whether the revision
+ * introduced it or the original already had the same finding.
+ */
+export function evaluatePlaybook(playbook: Playbook, original: string, revised: string, rows: AlignedRow[]): PlaybookViolation[] {
+  const revisedClauses = parseClauses(revised);
+  const originalClauses = parseClauses(original);
+  return playbook.rules.flatMap(rule => {
+    const findings = check(rule, revisedClauses, revised);
+    if (findings.length === 0) return [];
+    const existing = new Set(check(rule, originalClauses, original).map(findingKey));
+    return findings.map(finding => ({
+      ruleId: rule.id,
+      title: rule.title,
+      severity: rule.severity,
+      message: finding.message,
+      clause: finding.scope?.label || undefined,
+      rows: rowsFor(rule, finding, rows),
+      introduced: !existing.has(findingKey(finding)),
+    }));
+  });
+}
@@ -0,0 +1,99 @@
+import { AlignedRow, ChangeDecision } from '../types';
+import { normalizePunctuation } from './normalize';
+import { PAGE_BREAK_RE } from './pageBreaks';
+
+export interface ReviewChange {
+  id: number; // first row of the change; decisions are keyed by it
+  rows: number[];
+  before: string; // Version A's wording
+  after: string; // Version B's wording
+  formattingOnly: boolean; // differs only in whitespace, case or typographic punctuation
+}
+
+export interface ReviewProgress {
+  decided: number;
+  total: number;
+  accepted: number;
+  rejected: number;
+  countered: number;
+}
+
+const isChanged = (row: AlignedRow) =>
+  !row.ignored && ((!!row.left && row.left.type !== 'unchanged') || (!!row.right && row.right.type !== 'unchanged'));
+
+const formattingKey = (text: string) => normalizePunctuation(text).replace(/\s+/g, '').toLowerCase();
+
+/**
+ * The changes a reviewer decides on. Consecutive changed rows form one change, so a
+ * replaced word is one decision rather than a deletion and an insertion; both ends
+ * of a moved block are a single change too, so it cannot be duplicated or lost.
+ */
+export function reviewChanges(rows: AlignedRow[]): ReviewChange[] {
+  const blockOf = new Map<number, number>();
+  const blocks: number[][] = [];
+  rows.forEach((row, index) => {
+    if (!isChanged(row)) return;
+    if (!isChanged(rows[index - 1] ?? { left: null, right: null }) || !blocks.length) blocks.push([]);
+    blocks[blocks.length - 1].push(index);
+    blockOf.set(index, blocks.length - 1);
+  });
+
+  // Join the blocks holding the two ends of a move.
+  const parent = blocks.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  rows.forEach((row, index) => {
+    if (!row.move || !blockOf.has(index) || !blockOf.has(row.move.counterpart)) return;
+    parent[find(blockOf.get(index)!)] = find(blockOf.get(row.move.counterpart)!);
+  });
+  const groups = new Map<number, number[]>();
+  blocks.forEach((block, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), ...block]));
+
+  return [...groups.values()]
+    .map(indexes => indexes.sort((a, b) => a - b))
+    .map(indexes => {
+      const before = indexes.map(i => rows[i].left?.value ?? '').join('');
+      const after = indexes.map(i => rows[i].right?.value ?? '').join('');
+      return { id: indexes[0], rows: indexes, before, after, formattingOnly: formattingKey(before) === formattingKey(after) };
+    })
+    .sort((a, b) => a.id - b.id);
+}
+
+export function reviewProgress(changes: ReviewChange[], decisions: Record<number, ChangeDecision>): ReviewProgress {
+  const progress: ReviewProgress = { decided: 0, total: changes.length, accepted: 0, rejected: 0, countered: 0 };
+  for (const change of changes) {
+    const decision = decisions[change.id];
+    if (!decision) continue;
+    progress.decided++;
+    progress[decision.state]++;
+  }
+  return progress;
+}
+
+/**
+ * Assembles the document that results from the review: unchanged text as it stands,
+ * accepted changes in Version B's wording, rejected ones in Version A's and countered
+ * ones in our own. Changes not yet decided keep Version B's wording, as the draft under
+ * review. Text the comparison ignored is taken from Version B, without page breaks.
+ */
+export function mergeDocument(rows: AlignedRow[], changes: ReviewChange[], decisions: Record<number, ChangeDecision>): string {
+  const changeOf = new Map<number, ReviewChange>();
+  for (const change of changes) for (const row of change.rows) changeOf.set(row, change);
+
+  let merged = '';
+  rows.forEach((row, index) => {
+    const change = changeOf.get(index);
+    if (!change) {
+      merged += row.right?.value ?? (row.ignored ? '' : row.left?.value ?? '');
+      return;
+    }
+    const decision = decisions[change.id];
+    if (decision?.state === 'countered') {
+      if (index === change.id) merged += decision.text ?? '';
+    } else if (decision?.state === 'rejected') {
+      merged += row.left?.value ?? '';
+    } else {
+      merged += row.right?.value ?? '';
+    }
+  });
+  return merged.split('\n').filter(line => !PAGE_BREAK_RE.test(line.trim())).join('\n');
+}
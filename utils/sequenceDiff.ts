@@ -0,0 +1,157 @@
+export type EditOp =
+  | { type: 'equal'; a: number; b: number }
+  | { type: 'delete'; a: number }
+  | { type: 'insert'; b: number };
+
+/**
+ * Myers' O((N+M)·D) difference algorithm in its linear-space form: the middle snake
+ * splits the problem in two, so memory stays proportional to N+M instead of N·M.
+ * `equals(i, j)` compares element i of A with element j of B, which lets callers
+ * diff anything from interned word ids to fuzzily matched clauses.
+ */
+export function myersDiff(n: number, m: number, equals: (i: number, j: number) => boolean): EditOp[] {
+  const ops: EditOp[] = [];
+  const size = 2 * (n + m) + 3;
+  const vf = new Int32Array(size);
+  const vb = new Int32Array(size);
+
+  const middleSnake = (a0: number, a1: number, b0: number, b1: number): [number, number, number, number] => {
+    const N = a1 - a0;
+    const M = b1 - b0;
+    const delta = N - M;
+    const odd = (delta & 1) !== 0;
+    const max = Math.ceil((N + M) / 2);
+    const off = max + 1;
+    vf[off + 1] = 0;
+    vb[off + 1] = 0;
+
+    for (let d = 0; d <= max; d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && vf[off + k - 1] < vf[off + k + 1]) ? vf[off + k + 1] : vf[off + k - 1] + 1;
+        let y = x - k;
+        const x0 = x, y0 = y;
+        while (x < N && y < M && equals(a0 + x, b0 + y)) { x++; y++; }
+        vf[off + k] = x;
+        const kr = delta - k;
+        if (odd && kr >= -(d - 1) && kr <= d - 1 && x + vb[off + kr] >= N) {
+          return [a0 + x0, b0 + y0, a0 + x, b0 + y];
+        }
+      }
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && vb[off + k - 1] < vb[off + k + 1]) ? vb[off + k + 1] : vb[off + k - 1] + 1;
+        let y = x - k;
+        const x0 = x, y0 = y;
+        while (x < N && y < M && equals(a1 - 1 - x, b1 - 1 - y)) { x++; y++; }
+        vb[off + k] = x;
+        const kf = delta - k;
+        if (!odd && kf >= -d && kf <= d && x + vf[off + kf] >= N) {
+          return [a1 - x, b1 - y, a1 - x0, b1 - y0];
+        }
+      }
+    }
+    // Unreachable: an overlap always exists by d = ceil((N+M)/2).
+    return [a0, b0, a0, b0];
+  };
+
+  const diffRange = (a0: number, a1: number, b0: number, b1: number): void => {
+    while (a0 < a1 && b0 < b1 && equals(a0, b0)) ops.push({ type: 'equal', a: a0++, b: b0++ });
+    let suffix = 0;
+    while (a1 > a0 && b1 > b0 && equals(a1 - 1, b1 - 1)) { a1--; b1--; suffix++; }
+
+    if (a0 === a1) {
+      for (let j = b0; j < b1; j++) ops.push({ type: 'insert', b: j });
+    } else if (b0 === b1) {
+      for (let i = a0; i < a1; i++) ops.push({ type: 'delete', a: i });
+    } else {
+      const [x, y, u, v] = middleSnake(a0, a1, b0, b1);
+      diffRange(a0, x, b0, y);
+      for (let i = x, j = y; i < u; i++, j++) ops.push({ type: 'equal', a: i, b: j });
+      diffRange(u, a1, v, b1);
+    }
+
+    for (let s = 0; s < suffix; s++) ops.push({ type: 'equal', a: a1 + s, b: b1 + s });
+  };
+
+  diffRange(0, n, 0, m);
+  return ops;
+}
+
+/**
+ * Longest increasing subsequence of `values`, returned as positions into `values`.
+ */
+function longestIncreasing(values: number[]): number[] {
+  const tails: number[] = [];
+  const prev = new Int32Array(values.length).fill(-1);
+  for (let i = 0; i < values.length; i++) {
+    let lo = 0, hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < values[i]) lo = mid + 1; else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+  const result: number[] = [];
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) result.push(i);
+  return result.reverse();
+}
+
+/**
+ * Patience diff over interned sequences: elements that occur exactly once on each
+ * side are matched up first (via their longest increasing run) and act as anchors;
+ * the gaps between anchors are diffed with Myers. Anchoring on unique words keeps
+ * the alignment readable and bounds D for long, mostly similar documents.
+ */
+export function patienceDiff(a: ArrayLike<number>, b: ArrayLike<number>): EditOp[] {
+  const ops: EditOp[] = [];
+
+  const myersRange = (a0: number, a1: number, b0: number, b1: number) => {
+    for (const op of myersDiff(a1 - a0, b1 - b0, (i, j) => a[a0 + i] === b[b0 + j])) {
+      if (op.type === 'equal') ops.push({ type: 'equal', a: a0 + op.a, b: b0 + op.b });
+      else if (op.type === 'delete') ops.push({ type: 'delete', a: a0 + op.a });
+      else ops.push({ type: 'insert', b: b0 + op.b });
+    }
+  };
+
+  const diffRange = (a0: number, a1: number, b0: number, b1: number): void => {
+    while (a0 < a1 && b0 < b1 && a[a0] === b[b0]) ops.push({ type: 'equal', a: a0++, b: b0++ });
+    let suffix = 0;
+    while (a1 > a0 && b1 > b0 && a[a1 - 1] === b[b1 - 1]) { a1--; b1--; suffix++; }
+
+    const countA = new Map<number, number>();
+    const countB = new Map<number, number>();
+    const posB = new Map<number, number>();
+    for (let i = a0; i < a1; i++) countA.set(a[i], (countA.get(a[i]) ?? 0) + 1);
+    for (let j = b0; j < b1; j++) {
+      countB.set(b[j], (countB.get(b[j]) ?? 0) + 1);
+      posB.set(b[j], j);
+    }
+    const anchorsA: number[] = [];
+    const anchorsB: number[] = [];
+    for (let i = a0; i < a1; i++) {
+      if (countA.get(a[i]) === 1 && countB.get(a[i]) === 1) {
+        anchorsA.push(i);
+        anchorsB.push(posB.get(a[i])!);
+      }
+    }
+
+    const chain = longestIncreasing(anchorsB);
+    if (chain.length === 0) {
+      myersRange(a0, a1, b0, b1);
+    } else {
+      let i = a0, j = b0;
+      for (const c of chain) {
+        diffRange(i, anchorsA[c], j, anchorsB[c]);
+        ops.push({ type: 'equal', a: anchorsA[c], b: anchorsB[c] });
+        i = anchorsA[c] + 1;
+        j = anchorsB[c] + 1;
+      }
+      diffRange(i, a1, j, b1);
+    }
+
+    for (let s = 0; s < suffix; s++) ops.push({ type: 'equal', a: a1 + s, b: b1 + s });
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return ops;
+}
@@ -0,0 +1,159 @@
+import { ComparisonSettings, ThreeWayOrigin, ThreeWayRegion } from '../types';
+import { parseClauses } from './clauses';
+import { tokenizeForComparison } from './diff';
+import { createNormalizer, DEFAULT_COMPARISON_SETTINGS, Normalizer } from './normalize';
+import { patienceDiff } from './sequenceDiff';
+
+interface Unit {
+  key: string;
+  value: string;
+  offset: number;
+}
+
+/**
+ * Compared tokens of a text. Ignored tokens ride along with the compared token
+ * before them, so they are displayed but can never cause a change or a conflict.
+ */
+function toUnits(text: string, normalizer: Normalizer): Unit[] {
+  const units: Unit[] = [];
+  let leading = '';
+  let offset = 0;
+  for (const token of tokenizeForComparison(text, normalizer)) {
+    if (token.ignored && units.length) units[units.length - 1].value += token.value;
+    else if (token.ignored) leading += token.value;
+    else {
+      units.push({ key: token.key, value: leading + token.value, offset: offset - leading.length });
+      leading = '';
+    }
+    offset += token.value.length;
+  }
+  if (leading) units.push({ key: '', value: leading, offset: 0 }); // nothing but ignored text
+  return units;
+}
+
+/**
+ * For every base unit, the index of the unit it is matched with in `other`, or -1.
+ */
+function matchBase(base: Unit[], other: Unit[], intern: (unit: Unit) => number): Int32Array {
+  const matched = new Int32Array(base.length).fill(-1);
+  for (const op of patienceDiff(Int32Array.from(base, intern), Int32Array.from(other, intern))) {
+    if (op.type === 'equal') matched[op.a] = op.b;
+  }
+  return matched;
+}
+
+/**
+ * Maps a character offset to the path of the clause containing it.
+ */
+function clauseLocator(text: string, normalizer: Normalizer): (offset: number) => string[] | undefined {
+  const clauses = parseClauses(text, normalizer.isIgnoredLine);
+  const starts: number[] = [];
+  let start = 0;
+  for (const clause of clauses) {
+    starts.push(start);
+    start += clause.text.length;
+  }
+  return offset => {
+    let lo = 0, hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid; else hi = mid - 1;
+    }
+    return clauses[lo]?.path;
+  };
+}
+
+type Offsets = Record<'base' | 'ours' | 'theirs', number>;
+
+const sameKeys = (a: Unit[], b: Unit[]) => a.length === b.length && a.every((u, i) => u.key === b[i].key);
+const join = (units: Unit[]) => units.map(u => u.value).join('');
+const inlineWhitespace = (text: string) => /^[^\S\n]*$/.test(text);
+
+/**
+ * Three-way comparison of two revisions against their common ancestor (diff3).
+ * Both revisions are diffed against the base; wherever the base text survives in
+ * both, the documents are in sync, and each stretch in between is attributed to
+ * whichever side departed from the base there, or to both. Regions changed by
+ * both sides are conflicts unless the two edits are the same (`identical`).
+ * Tokens are compared with the same normalisation as the two-way comparison.
+ */
+export function computeThreeWayDiff(
+  base: string,
+  ours: string,
+  theirs: string,
+  settings: ComparisonSettings = DEFAULT_COMPARISON_SETTINGS
+): ThreeWayRegion[] {
+  const normalizer = createNormalizer(settings, [base, ours, theirs]);
+  const [b, o, t] = [base, ours, theirs].map(text => toUnits(text, normalizer));
+  const ids = new Map<string, number>();
+  const intern = (unit: Unit) => {
+    let id = ids.get(unit.key);
+    if (id === undefined) ids.set(unit.key, id = ids.size);
+    return id;
+  };
+  const inOurs = matchBase(b, o, intern);
+  const inTheirs = matchBase(b, t, intern);
+  const locate = {
+    base: clauseLocator(base, normalizer),
+    ours: clauseLocator(ours, normalizer),
+    theirs: clauseLocator(theirs, normalizer),
+  };
+
+  const regions: ThreeWayRegion[] = [];
+  const emit = (origin: ThreeWayOrigin, bs: Unit[], os: Unit[], ts: Unit[], at: Offsets, identical?: boolean) => {
+    const region: ThreeWayRegion = { origin, base: join(bs), ours: join(os), theirs: join(ts) };
+    // Locate by the first visible character, so an inserted clause is not credited to the one before it.
+    const side = origin === 'unchanged' ? 'base' : origin === 'ours' ? 'ours' : 'theirs';
+    region.clausePath = locate[side](at[side] + Math.max(0, region[side].search(/\S/)));
+    if (identical !== undefined) region.identical = identical;
+
+    const last = regions[regions.length - 1];
+    const beforeLast = regions[regions.length - 2];
+    if (origin === 'unchanged' && last?.origin === 'unchanged') {
+      last.base += region.base; last.ours += region.ours; last.theirs += region.theirs;
+    } else if (
+      origin !== 'unchanged' && last?.origin === 'unchanged' && beforeLast?.origin === origin && beforeLast.identical === identical &&
+      inlineWhitespace(last.base) && inlineWhitespace(last.ours) && inlineWhitespace(last.theirs)
+    ) {
+      // "100 USD" -> "200 EUR" is one edit, not two separated by an unchanged space.
+      for (const side of ['base', 'ours', 'theirs'] as const) beforeLast[side] += last[side] + region[side];
+      regions.pop();
+    } else {
+      regions.push(region);
+    }
+  };
+  const offsetOf = (units: Unit[], index: number, text: string) => units[index]?.offset ?? text.length;
+
+  let i = 0, j = 0, k = 0;
+  while (i < b.length || j < o.length || k < t.length) {
+    const at = { base: offsetOf(b, i, base), ours: offsetOf(o, j, ours), theirs: offsetOf(t, k, theirs) };
+    if (i < b.length && inOurs[i] === j && inTheirs[i] === k) {
+      emit('unchanged', [b[i]], [o[j]], [t[k]], at);
+      i++; j++; k++;
+      continue;
+    }
+
+    // The unstable stretch runs up to the next base token that both revisions kept.
+    let next = i;
+    while (next < b.length && (inOurs[next] < 0 || inTheirs[next] < 0)) next++;
+    const endOurs = next < b.length ? inOurs[next] : o.length;
+    const endTheirs = next < b.length ? inTheirs[next] : t.length;
+    const bs = b.slice(i, next), os = o.slice(j, endOurs), ts = t.slice(k, endTheirs);
+
+    const oursKept = sameKeys(bs, os);
+    const theirsKept = sameKeys(bs, ts);
+    if (oursKept && theirsKept) emit('unchanged', bs, os, ts, at);
+    else if (oursKept) emit('theirs', bs, os, ts, at);
+    else if (theirsKept) emit('ours', bs, os, ts, at);
+    else emit('both', bs, os, ts, at, sameKeys(os, ts));
+
+    i = next; j = endOurs; k = endTheirs;
+  }
+  return regions;
+}
+
+/**
+ * Regions the counterparty is responsible for: their own edits and conflicting ones.
+ */
+export const isCounterpartyChange = (region: ThreeWayRegion) =>
+  region.origin === 'theirs' || (region.origin === 'both' && !region.identical);
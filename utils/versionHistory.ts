@@ -0,0 +1,94 @@
+import { ComparisonSettings } from '../types';
+import { Clause, parseClauses } from './clauses';
+import { alignClauses, tokenizeForComparison } from './diff';
+import { createNormalizer, DEFAULT_COMPARISON_SETTINGS } from './normalize';
+
+export type ClauseEventKind = 'added' | 'modified' | 'removed';
+
+export interface ClauseEvent {
+  version: number; // index into the version list
+  kind: ClauseEventKind;
+}
+
+export interface ClauseHistory {
+  label: string; // as of the clause's latest appearance; empty for the preamble
+  path: string[];
+  events: ClauseEvent[]; // oldest first; clauses of the first version start without an event
+  removed: boolean;
+}
+
+// Renumbering alone is not a change to the clause itself.
+const LEADING_MARKER_RE = /^\s*(?:(?:ARTICLE|Article|SECTION|Section)\s+(?:[IVXLC]+|\d+)\b[.:]?|\d+(?:\.\d+)*[.)]?|\((?:[a-z]{1,2}|[ivx]+)\))\s*/;
+
+/**
+ * Follows every clause through an ordered series of versions. Consecutive versions
+ * are aligned clause by clause (as in computeAlignedDiff, so renumbered and moved
+ * clauses keep their identity), and each clause records the versions that added,
+ * modified or removed it. Only clause texts are compared, so this stays cheap even
+ * for ten rounds of a long agreement. Removed clauses stay at their last position.
+ */
+export function buildClauseHistory(
+  versions: string[],
+  settings: ComparisonSettings = DEFAULT_COMPARISON_SETTINGS
+): ClauseHistory[] {
+  const normalizer = createNormalizer(settings, versions);
+  const fingerprint = (clause: Clause) =>
+    tokenizeForComparison(clause.text.replace(LEADING_MARKER_RE, ''), normalizer)
+      .filter(t => !t.ignored && t.value.trim())
+      .map(t => t.key)
+      .join(' ');
+
+  const histories: ClauseHistory[] = [];
+  const track = (clause: Clause, event?: ClauseEvent) => {
+    histories.push({ label: clause.label, path: clause.path, events: event ? [event] : [], removed: false });
+    return histories.length - 1;
+  };
+
+  let previous: Clause[] = [];
+  let lineages = new Map<Clause, number>(); // history index of each clause of the previous version
+  let order: number[] = [];
+
+  versions.forEach((text, version) => {
+    const clauses = parseClauses(text, normalizer.isIgnoredLine);
+    const current = new Map<Clause, number>();
+    const nextOrder: number[] = [];
+    let carried = 0;
+    // Clauses removed in earlier rounds keep their place between the surviving ones.
+    const carryUntil = (lineage: number) => {
+      while (carried < order.length) {
+        const entry = order[carried++];
+        if (entry === lineage) break;
+        nextOrder.push(entry);
+      }
+    };
+
+    for (const { left, right } of alignClauses(previous, clauses)) {
+      if (left) {
+        const lineage = lineages.get(left)!;
+        carryUntil(lineage);
+        nextOrder.push(lineage);
+        const history = histories[lineage];
+        if (!right) {
+          history.events.push({ version, kind: 'removed' });
+          history.removed = true;
+          continue;
+        }
+        if (fingerprint(left) !== fingerprint(right)) history.events.push({ version, kind: 'modified' });
+        history.label = right.label;
+        history.path = right.path;
+        current.set(right, lineage);
+      } else if (right) {
+        const lineage = track(right, version === 0 ? undefined : { version, kind: 'added' });
+        nextOrder.push(lineage);
+        current.set(right, lineage);
+      }
+    }
+    nextOrder.push(...order.slice(carried));
+
+    previous = clauses;
+    lineages = current;
+    order = nextOrder;
+  });
+
+  return order.map(index => histories[index]);
+}
@@ -9,6 +9,12 @@ export default defineConfig({
   },
   build: {
     outDir: 'dist',
-    sourcemap: true
+    sourcemap: true,
+    rollupOptions: {
+      output: {
+        // tesseract.js fetches its language model as "<langPath>/eng.traineddata.gz", so it keeps its name.
+        assetFileNames: (asset) => asset.name?.endsWith('.traineddata.gz') ? 'assets/ocr/[name][extname]' : 'assets/[name]-[hash][extname]'
+      }
+    }
   }
 });